@@ -0,0 +1,161 @@
+// Copyright 2021 Hugo Daniel Henriques Oliveira Gomes. All rights reserved.
+// Licensed under the EUPL
+import { parse } from "./parser.ts";
+import {
+  interleavedVertexLayout,
+  vertexAttributeLocations,
+} from "./attributes.ts";
+import {
+  assertEquals,
+  assertThrows,
+} from "https://deno.land/std@0.83.0/testing/asserts.ts";
+
+Deno.test(
+  "Assigns the locations of the vertex attributes",
+  () => {
+    const variables = parse(
+      `#version 300 es
+    layout(location = 1) in vec4 a_position;
+    in vec3 a_normal;
+    in mat4 a_model;
+    layout(location = 6) in vec2 a_texcoord;
+    in vec4 a_weights[2];
+    in float a_id;
+    void main() { gl_Position = a_position; }
+    `,
+      { stage: "vertex" },
+    );
+    const { attributes, locations, diagnostics } = vertexAttributeLocations(
+      variables,
+    );
+    assertEquals(diagnostics, []);
+    assertEquals(locations, {
+      a_position: 1,
+      a_normal: 0,
+      a_model: 2,
+      a_texcoord: 6,
+      a_weights: 7,
+      a_id: 9,
+    });
+    assertEquals(
+      attributes.map((
+        { name, slots, isExplicit },
+      ) => [name, slots, isExplicit]),
+      [
+        ["a_position", 1, true],
+        ["a_normal", 1, false],
+        ["a_model", 4, false],
+        ["a_texcoord", 1, true],
+        ["a_weights", 2, false],
+        ["a_id", 1, false],
+      ],
+    );
+  },
+);
+
+Deno.test(
+  "Reports overlapping, duplicated and out of range attribute locations",
+  () => {
+    const variables = parse(
+      `#version 300 es
+    layout(location = 0) in mat3 a_normalMatrix;
+    layout(location = 2) in vec4 a_position;
+    layout(location = 14) in mat4 a_model;
+    in vec2 a_texcoord;
+    in vec2 a_texcoord;
+    in mat4 a_instances[3];
+    void main() {}
+    `,
+      { stage: "vertex" },
+    );
+    const { locations, diagnostics } = vertexAttributeLocations(variables);
+    assertEquals(
+      diagnostics.map(({ code }) => code),
+      [
+        "duplicate-attribute",
+        "attribute-location-overlap",
+        "attribute-location-out-of-range",
+        "attribute-locations-exhausted",
+      ],
+    );
+    assertEquals(
+      diagnostics[1].message,
+      'The locations of the attribute "a_position" overlap the ones of "a_normalMatrix"',
+    );
+    assertEquals(locations, {
+      a_normalMatrix: 0,
+      a_position: 2,
+      a_model: 14,
+      a_texcoord: 3,
+    });
+    const small = vertexAttributeLocations(
+      parse("in mat2 a_uv;", { stage: "vertex" }),
+      { maxVertexAttribs: 1 },
+    );
+    assertEquals(small.locations, {});
+    assertEquals(small.attributes[0].location, null);
+  },
+);
+
+Deno.test(
+  "Calculates the layout of an interleaved vertex buffer",
+  () => {
+    const variables = parse(
+      `#version 300 es
+    in vec3 a_position;
+    in vec4 a_color;
+    in vec2 a_uv;
+    in mat3 a_normalMatrix;
+    in ivec2 a_ids;
+    in float a_weight;
+    void main() {}
+    `,
+      { stage: "vertex" },
+    );
+    const layout = interleavedVertexLayout(variables, {
+      formats: {
+        a_color: { type: "UNSIGNED_BYTE", normalized: true },
+        a_uv: { type: "HALF_FLOAT" },
+        a_ids: { type: "UNSIGNED_SHORT" },
+      },
+    });
+    assertEquals(layout.diagnostics, []);
+    assertEquals(
+      layout.attributes.map((
+        { name, location, size, typeName, normalized, isInteger, offset },
+      ) => [name, location, size, typeName, normalized, isInteger, offset]),
+      [
+        ["a_position", 0, 3, "FLOAT", false, false, 0],
+        ["a_color", 1, 4, "UNSIGNED_BYTE", true, false, 12],
+        ["a_uv", 2, 2, "HALF_FLOAT", false, false, 16],
+        ["a_normalMatrix", 3, 3, "FLOAT", false, false, 20],
+        ["a_ids", 6, 2, "UNSIGNED_SHORT", false, true, 56],
+        ["a_weight", 7, 1, "FLOAT", false, false, 60],
+      ],
+    );
+    const [, color, , normalMatrix] = layout.attributes;
+    assertEquals(color.type, 0x1401);
+    assertEquals([normalMatrix.slots, normalMatrix.slotSize], [3, 12]);
+    assertEquals(layout.stride, 64);
+  },
+);
+
+Deno.test(
+  "Throws when an attribute can't be read with its format",
+  () => {
+    const variables = parse("in uvec4 a_ids;", { stage: "vertex" });
+    assertThrows(
+      () =>
+        interleavedVertexLayout(variables, {
+          formats: { a_ids: { type: "UNSIGNED_BYTE", normalized: true } },
+        }),
+      Error,
+      `The integer attribute "a_ids" can't use the normalized UNSIGNED_BYTE format`,
+    );
+    assertThrows(
+      () => interleavedVertexLayout(parse("in bool a_flag;")),
+      Error,
+      "can't be a boolean",
+    );
+  },
+);
@@ -0,0 +1,364 @@
+// Copyright 2021 Hugo Daniel Henriques Oliveira Gomes. All rights reserved.
+// Licensed under the EUPL
+import { GLSLDiagnostic, GLSLVariable } from "./parser.ts";
+import { roundUp } from "./std140.ts";
+import { GLSLTypeInfo, glslTypes, isGLSLType } from "./types.ts";
+
+/**
+ * This function calculates the location of each attribute (the "in"
+ * variables) of a vertex shader.
+ *
+ * It receives the variables returned by `parse()` for a vertex shader. The
+ * attributes with a `layout(location=N)` keep their location. The others are
+ * assigned, in the order they are declared, to the lowest free locations
+ * (like it is done when calling `gl.bindAttribLocation()` for each one).
+ *
+ * Each attribute takes consecutive locations: a matrix takes one for each
+ * column (i.e. "mat4" takes 4, "mat2x3" takes 2), and arrays take them for
+ * each of their elements.
+ *
+ * It returns the attributes with their locations and the diagnostics for the
+ * problems found (all of them errors):
+ * - attributes declared more than once
+ * - attributes whose locations overlap the ones of another attribute
+ * - attributes whose locations go past the `maxVertexAttribs`
+ * - attributes that could not be assigned because there are no free locations
+ *
+ * The built-in variables (those whose name starts with "gl_") are ignored.
+ *
+ * @param variables the variables of the vertex shader
+ * @param options the `maxVertexAttribs` (16 by default, like in WebGL2)
+ */
+export function vertexAttributeLocations(
+  variables: GLSLVariable[],
+  { maxVertexAttribs = 16 }: AttributeLocationsOptions = {},
+): AttributeLocationsResult {
+  const attributes: AttributeLocation[] = [];
+  const diagnostics: GLSLDiagnostic[] = [];
+  for (const variable of variables) {
+    if (variable.qualifier !== "in" || variable.name.startsWith("gl_")) {
+      continue;
+    }
+    if (attributes.some((a) => a.name === variable.name)) {
+      diagnostics.push(attributeDiagnostic(
+        "duplicate-attribute",
+        `The attribute "${variable.name}" is declared more than once`,
+        variable,
+      ));
+      continue;
+    }
+    const location = variable.layoutQualifiers.location;
+    attributes.push({
+      name: variable.name,
+      location,
+      slots: locationsTaken(variable),
+      isExplicit: location !== null,
+      variable,
+    });
+  }
+  // The attribute that takes each location
+  const taken: (AttributeLocation | undefined)[] = [];
+  // The explicit locations are placed first, the others use what is left
+  for (const attribute of attributes) {
+    if (attribute.location === null) continue;
+    const end = attribute.location + attribute.slots;
+    if (end > maxVertexAttribs) {
+      const range = `${attribute.location} to ${end - 1}`;
+      diagnostics.push(attributeDiagnostic(
+        "attribute-location-out-of-range",
+        `The attribute "${attribute.name}" takes the locations ${range}, past the maximum of ${maxVertexAttribs} vertex attributes`,
+        attribute.variable,
+      ));
+    }
+    const overlapped = new Set<AttributeLocation>();
+    for (let i = attribute.location; i < end; i++) {
+      const other = taken[i];
+      if (other) {
+        overlapped.add(other);
+      } else {
+        taken[i] = attribute;
+      }
+    }
+    for (const other of overlapped) {
+      diagnostics.push(attributeDiagnostic(
+        "attribute-location-overlap",
+        `The locations of the attribute "${attribute.name}" overlap the ones of "${other.name}"`,
+        attribute.variable,
+      ));
+    }
+  }
+  for (const attribute of attributes) {
+    if (attribute.isExplicit) continue;
+    attribute.location = findFreeLocations(
+      taken,
+      attribute.slots,
+      maxVertexAttribs,
+    );
+    if (attribute.location === null) {
+      diagnostics.push(attributeDiagnostic(
+        "attribute-locations-exhausted",
+        `There are no ${attribute.slots} free consecutive locations for the attribute "${attribute.name}" (the maximum is ${maxVertexAttribs} vertex attributes)`,
+        attribute.variable,
+      ));
+      continue;
+    }
+    for (let i = 0; i < attribute.slots; i++) {
+      taken[attribute.location + i] = attribute;
+    }
+  }
+  const locations: Record<string, number> = {};
+  for (const { name, location } of attributes) {
+    if (location !== null) locations[name] = location;
+  }
+  return { attributes, locations, diagnostics };
+}
+
+/**
+ * The options of `vertexAttributeLocations()`.
+ */
+export interface AttributeLocationsOptions {
+  // The number of vertex attribute locations available (the value of
+  // `gl.getParameter(gl.MAX_VERTEX_ATTRIBS)`), 16 by default
+  maxVertexAttribs?: number;
+}
+
+/**
+ * The result of `vertexAttributeLocations()`.
+ */
+export interface AttributeLocationsResult {
+  // The attributes of the vertex shader, in the order they are declared
+  attributes: AttributeLocation[];
+  // The first location of each attribute that has one, by its name
+  locations: Record<string, number>;
+  // The problems found on the attribute locations
+  diagnostics: GLSLDiagnostic[];
+}
+
+/**
+ * An attribute of a vertex shader with its location.
+ */
+export interface AttributeLocation {
+  name: string;
+  // The first location that it takes, or null if it could not be assigned
+  location: number | null;
+  // The number of consecutive locations that it takes
+  slots: number;
+  // If the location was set with `layout(location=N)`
+  isExplicit: boolean;
+  // The declaration of the attribute
+  variable: GLSLVariable;
+}
+
+/**
+ * This function calculates the layout of a vertex buffer that has the
+ * attributes of a vertex shader interleaved (all the attributes of a vertex,
+ * then all the attributes of the next vertex, and so on).
+ *
+ * It receives the variables returned by `parse()` for a vertex shader. The
+ * attributes are placed in the order they are declared, each one at the next
+ * offset that is a multiple of the size of its components (as required by
+ * WebGL). Their locations are the ones of `vertexAttributeLocations()`.
+ *
+ * By default the components are stored with the type of the shader input
+ * ("FLOAT", "INT" or "UNSIGNED_INT"). The `formats` option sets the component
+ * type (and if it is normalized) of an attribute by its name, i.e.
+ * `{ a_color: { type: "UNSIGNED_BYTE", normalized: true } }` or
+ * `{ a_uv: { type: "HALF_FLOAT" } }`.
+ *
+ * It throws an exception for attributes with types that can't be read from a
+ * vertex buffer (booleans or doubles), and for integer attributes (i.e.
+ * "ivec2") with a float or normalized format.
+ *
+ * @param variables the variables of the vertex shader
+ * @param options the `formats` of the attributes and the `maxVertexAttribs`
+ */
+export function interleavedVertexLayout(
+  variables: GLSLVariable[],
+  { formats = {}, maxVertexAttribs }: VertexLayoutOptions = {},
+): VertexLayout {
+  const { attributes, diagnostics } = vertexAttributeLocations(variables, {
+    maxVertexAttribs,
+  });
+  const layouts: VertexAttributeLayout[] = [];
+  let end = 0;
+  // The stride is a multiple of the biggest component size
+  let alignment = 1;
+  for (const { name, location, slots, variable } of attributes) {
+    const info = isGLSLType(variable.type) ? glslTypes[variable.type] : null;
+    if (!info || info.isSampler || info.glType === null) {
+      throw new Error(
+        `The attribute "${name}" has a type (${variable.type}) that can't be read from a vertex buffer`,
+      );
+    }
+    if (info.baseType === "bool") {
+      throw new Error(`The attribute "${name}" can't be a boolean`);
+    }
+    const format = formats[name] || { type: defaultComponentType(info) };
+    const normalized = format.normalized || false;
+    const isInteger = info.isInteger;
+    if (
+      isInteger &&
+      (format.type === "FLOAT" || format.type === "HALF_FLOAT" || normalized)
+    ) {
+      const what = normalized ? `normalized ${format.type}` : format.type;
+      throw new Error(
+        `The integer attribute "${name}" can't use the ${what} format`,
+      );
+    }
+    const [type, componentSize] = componentTypes[format.type];
+    const size = info.rows;
+    const slotSize = size * componentSize;
+    const offset = roundUp(end, componentSize);
+    layouts.push({
+      name,
+      location,
+      size,
+      type,
+      typeName: format.type,
+      normalized,
+      isInteger,
+      offset,
+      slots,
+      slotSize,
+      variable,
+    });
+    end = offset + slots * slotSize;
+    alignment = Math.max(alignment, componentSize);
+  }
+  return { stride: roundUp(end, alignment), attributes: layouts, diagnostics };
+}
+
+/**
+ * The options of `interleavedVertexLayout()`.
+ */
+export interface VertexLayoutOptions extends AttributeLocationsOptions {
+  // The format of the attributes, by their name
+  formats?: Record<string, AttributeFormat>;
+}
+
+/**
+ * The format of the components of an attribute on the vertex buffer.
+ */
+export interface AttributeFormat {
+  type: VertexComponentType;
+  // If the integer values are mapped to [0, 1] (or [-1, 1] when signed)
+  normalized?: boolean;
+}
+
+/**
+ * The types of the components that can be read from a vertex buffer.
+ */
+export type VertexComponentType =
+  | "BYTE"
+  | "UNSIGNED_BYTE"
+  | "SHORT"
+  | "UNSIGNED_SHORT"
+  | "INT"
+  | "UNSIGNED_INT"
+  | "FLOAT"
+  | "HALF_FLOAT";
+
+/**
+ * The result of `interleavedVertexLayout()`.
+ */
+export interface VertexLayout {
+  // The size, in bytes, of all the attributes of a vertex (the distance
+  // between the start of two consecutive vertices)
+  stride: number;
+  // The layout of each attribute, in the order they are declared
+  attributes: VertexAttributeLayout[];
+  // The problems found on the attribute locations
+  diagnostics: GLSLDiagnostic[];
+}
+
+/**
+ * The layout of an attribute on an interleaved vertex buffer, i.e. the
+ * arguments of `gl.vertexAttribPointer()` (or `gl.vertexAttribIPointer()`).
+ */
+export interface VertexAttributeLayout {
+  name: string;
+  // The first location of the attribute, or null if it could not be assigned
+  location: number | null;
+  // The number of components read for each location (1 to 4)
+  size: number;
+  // The GL enum of the component type, i.e. 0x1406 for FLOAT
+  type: number;
+  // The name of the component type, i.e. "FLOAT"
+  typeName: VertexComponentType;
+  normalized: boolean;
+  // If the attribute is an integer input ("int", "ivec" or "uvec"), which is
+  // set with `gl.vertexAttribIPointer()`
+  isInteger: boolean;
+  // The offset, in bytes, from the start of the vertex
+  offset: number;
+  // The number of locations taken (the columns of a matrix times the array
+  // elements). Each one is set at `location + i` and `offset + i * slotSize`.
+  slots: number;
+  // The size, in bytes, of the components of a single location
+  slotSize: number;
+  // The declaration of the attribute
+  variable: GLSLVariable;
+}
+
+/**
+ * The GL enum and the size, in bytes, of each vertex component type.
+ */
+const componentTypes: Record<VertexComponentType, [number, number]> = {
+  BYTE: [0x1400, 1],
+  UNSIGNED_BYTE: [0x1401, 1],
+  SHORT: [0x1402, 2],
+  UNSIGNED_SHORT: [0x1403, 2],
+  INT: [0x1404, 4],
+  UNSIGNED_INT: [0x1405, 4],
+  FLOAT: [0x1406, 4],
+  HALF_FLOAT: [0x140B, 2],
+};
+
+/**
+ * The component type that matches the base type of a shader input.
+ */
+function defaultComponentType(info: GLSLTypeInfo): VertexComponentType {
+  if (info.baseType === "int") return "INT";
+  if (info.baseType === "uint") return "UNSIGNED_INT";
+  return "FLOAT";
+}
+
+/**
+ * Returns the number of locations taken by an attribute: one for each matrix
+ * column, times the number of array elements.
+ */
+function locationsTaken(variable: GLSLVariable): number {
+  const info = isGLSLType(variable.type) ? glslTypes[variable.type] : null;
+  const columns = info ? Math.max(info.columns, 1) : 1;
+  return columns * (variable.dimensions.length > 0 ? variable.amount : 1);
+}
+
+/**
+ * Returns the lowest location where there are `slots` free consecutive
+ * locations, or null if there is none before the `max`.
+ */
+function findFreeLocations(
+  taken: (AttributeLocation | undefined)[],
+  slots: number,
+  max: number,
+): number | null {
+  for (let start = 0; start + slots <= max; start++) {
+    let isFree = true;
+    for (let i = start; i < start + slots && isFree; i++) {
+      isFree = !taken[i];
+    }
+    if (isFree) return start;
+  }
+  return null;
+}
+
+/**
+ * Creates an error diagnostic on the declaration of an attribute.
+ */
+function attributeDiagnostic(
+  code: string,
+  message: string,
+  variable: GLSLVariable,
+): GLSLDiagnostic {
+  return { severity: "error", code, message, range: variable.range };
+}
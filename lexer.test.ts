@@ -0,0 +1,57 @@
+// Copyright 2021 Hugo Daniel Henriques Oliveira Gomes. All rights reserved.
+// Licensed under the EUPL
+import { tokenize } from "./lexer.ts";
+import { assertEquals } from "https://deno.land/std@0.83.0/testing/asserts.ts";
+
+Deno.test(
+  "Splits the code into tokens with their kinds and offsets",
+  () => {
+    const tokens = tokenize("uniform vec2 u_offsets[ 12 ];\nx <<= 0x1Fu;");
+    assertEquals(
+      tokens.map(({ kind, text }) => [kind, text]),
+      [
+        ["keyword", "uniform"],
+        ["keyword", "vec2"],
+        ["identifier", "u_offsets"],
+        ["punctuation", "["],
+        ["number", "12"],
+        ["punctuation", "]"],
+        ["punctuation", ";"],
+        ["identifier", "x"],
+        ["punctuation", "<<="],
+        ["number", "0x1Fu"],
+        ["punctuation", ";"],
+      ],
+    );
+    assertEquals([tokens[2].start, tokens[2].end], [13, 22]);
+    assertEquals([tokens[7].start, tokens[7].end], [30, 31]);
+    assertEquals(
+      tokenize("1.5e-3 .5 2. 3f").map(({ text }) => text),
+      ["1.5e-3", ".5", "2.", "3f"],
+    );
+  },
+);
+
+Deno.test(
+  "Skips the comments and reads the directives until the end of their line",
+  () => {
+    const code = `#define SUM(a, b) \\
+      (a + b) # b
+    float /* a comment; */ x; // another one
+    a # b;`;
+    const tokens = tokenize(code);
+    assertEquals(
+      tokens.map(({ kind, text }) => [kind, text]),
+      [
+        ["preprocessor", "#define SUM(a, b) \\\n      (a + b) # b"],
+        ["keyword", "float"],
+        ["identifier", "x"],
+        ["punctuation", ";"],
+        ["identifier", "a"],
+        ["punctuation", "#"],
+        ["identifier", "b"],
+        ["punctuation", ";"],
+      ],
+    );
+  },
+);
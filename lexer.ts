@@ -0,0 +1,187 @@
+// Copyright 2021 Hugo Daniel Henriques Oliveira Gomes. All rights reserved.
+// Licensed under the EUPL
+import { isGLSLType } from "./types.ts";
+
+/**
+ * This function splits a GLSL ES shader code string into its tokens.
+ *
+ * Each token has its kind, its text and the offsets where it starts and ends
+ * on the `code` string. The kinds of tokens are:
+ * - "identifier": names of variables, functions, structs and blocks
+ * - "keyword": the words reserved by the GLSL ES spec (types included), i.e.
+ * "uniform", "vec4" or "precision"
+ * - "number": the integer and floating point literals, i.e. "0x1F", "2u" or
+ * "1.5e-3"
+ * - "punctuation": the operators and separators, i.e. ";", "{", "<<=" or "."
+ * - "preprocessor": a directive line, from its "#" to the end of the line
+ * (the lines that end with "\" continue on the next line)
+ *
+ * The whitespace and the comments are not placed on the tokens. A "#" is only
+ * read as a directive when it is the first char of its line (other than
+ * whitespace), otherwise it is a punctuation token.
+ *
+ * @param code the string with the GLSL shader code to split
+ */
+export function tokenize(code: string): Token[] {
+  const tokens: Token[] = [];
+  // True while only whitespace was found since the start of the line
+  let isLineStart = true;
+  let offset = 0;
+  while (offset < code.length) {
+    const char = code[offset];
+    if (char === "\n") isLineStart = true;
+    if (/\s/.test(char)) {
+      offset++;
+      continue;
+    }
+    if (code.startsWith("//", offset)) {
+      const lineEnd = code.indexOf("\n", offset);
+      offset = lineEnd < 0 ? code.length : lineEnd;
+      continue;
+    }
+    if (code.startsWith("/*", offset)) {
+      const commentEnd = code.indexOf("*/", offset + 2);
+      offset = commentEnd < 0 ? code.length : commentEnd + 2;
+      continue;
+    }
+    const start = offset;
+    const number = matchAt(numberPattern, code, offset);
+    const word = matchAt(identifierPattern, code, offset);
+    let kind: TokenKind = "punctuation";
+    if (char === "#" && isLineStart) {
+      kind = "preprocessor";
+      offset = directiveEnd(code, offset);
+    } else if (number) {
+      kind = "number";
+      offset += number.length;
+    } else if (word) {
+      kind = keywords.has(word) || isGLSLType(word) ? "keyword" : "identifier";
+      offset += word.length;
+    } else {
+      const operator = operators.find((o) => code.startsWith(o, offset));
+      offset += operator ? operator.length : 1;
+    }
+    isLineStart = false;
+    tokens.push({ kind, text: code.slice(start, offset), start, end: offset });
+  }
+  return tokens;
+}
+
+/**
+ * A token of the GLSL code, as returned by `tokenize()`.
+ */
+export interface Token {
+  kind: TokenKind;
+  // The chars of the token, as they are on the code
+  text: string;
+  // The offset of the first char of the token on the code string
+  start: number;
+  // The offset right after the last char of the token (exclusive)
+  end: number;
+}
+
+/**
+ * The kinds of tokens of the GLSL code.
+ */
+export type TokenKind =
+  | "identifier"
+  | "keyword"
+  | "number"
+  | "punctuation"
+  | "preprocessor";
+
+/**
+ * The GLSL ES 3.00 keywords (and the GLSL ES 1.00 "attribute" and "varying"),
+ * other than the type names (these are checked with `isGLSLType()`).
+ */
+const keywords = new Set([
+  "attribute",
+  "break",
+  "case",
+  "centroid",
+  "const",
+  "continue",
+  "default",
+  "discard",
+  "do",
+  "else",
+  "false",
+  "flat",
+  "for",
+  "highp",
+  "if",
+  "in",
+  "inout",
+  "invariant",
+  "layout",
+  "lowp",
+  "mediump",
+  "out",
+  "precision",
+  "return",
+  "smooth",
+  "struct",
+  "switch",
+  "true",
+  "uniform",
+  "varying",
+  "void",
+  "while",
+]);
+
+/**
+ * The operators with more than one char, the longest ones first.
+ */
+const operators = [
+  "<<=",
+  ">>=",
+  "++",
+  "--",
+  "<<",
+  ">>",
+  "<=",
+  ">=",
+  "==",
+  "!=",
+  "&&",
+  "||",
+  "^^",
+  "*=",
+  "/=",
+  "%=",
+  "+=",
+  "-=",
+  "&=",
+  "^=",
+  "|=",
+];
+
+// Hexadecimal and decimal integers, and floats with an optional exponent,
+// i.e. "0xFFu", "12", ".5", "1.0e-3"
+const numberPattern =
+  /(0[xX][0-9a-fA-F]+|(\d+\.\d*|\.\d+|\d+)([eE][+-]?\d+)?)[uUfF]?/y;
+const identifierPattern = /[A-Za-z_]\w*/y;
+
+/**
+ * Returns the text that the sticky `pattern` matches at the `offset` of the
+ * `code`, or an empty string if it does not match there.
+ */
+function matchAt(pattern: RegExp, code: string, offset: number): string {
+  pattern.lastIndex = offset;
+  const match = pattern.exec(code);
+  return match ? match[0] : "";
+}
+
+/**
+ * Returns the offset where the directive that starts at `offset` ends: at the
+ * end of its line, or of the next lines while they end with "\".
+ */
+function directiveEnd(code: string, offset: number): number {
+  let lineStart = offset;
+  let end = code.indexOf("\n", lineStart);
+  while (end >= 0 && code.slice(lineStart, end).trimEnd().endsWith("\\")) {
+    lineStart = end + 1;
+    end = code.indexOf("\n", lineStart);
+  }
+  return end < 0 ? code.length : end;
+}
@@ -0,0 +1,182 @@
+// Copyright 2021 Hugo Daniel Henriques Oliveira Gomes. All rights reserved.
+// Licensed under the EUPL
+import { parse } from "./parser.ts";
+import { linkProgram, programUniforms } from "./link.ts";
+import { assertEquals } from "https://deno.land/std@0.83.0/testing/asserts.ts";
+
+Deno.test(
+  "Pairs the vertex outputs with the fragment inputs",
+  () => {
+    const vertex = parse(`#version 300 es
+    in vec4 a_position;
+    out vec2 v_texcoord;
+    layout(location = 1) out vec3 v_normal;
+    void main() {}
+    `);
+    const fragment = parse(`#version 300 es
+    precision highp float;
+    in vec2 v_texcoord;
+    layout(location = 1) in vec3 v_worldNormal;
+    out vec4 outColor;
+    void main() {}
+    `);
+    const { varyings, diagnostics } = linkProgram({ vertex, fragment });
+    assertEquals(diagnostics, []);
+    assertEquals(
+      varyings.map(({ name, output, input }) => [
+        name,
+        output?.name,
+        input?.name,
+      ]),
+      [
+        ["v_texcoord", "v_texcoord", "v_texcoord"],
+        ["v_worldNormal", "v_normal", "v_worldNormal"],
+      ],
+    );
+  },
+);
+
+Deno.test(
+  "Reports the differences between the vertex and fragment interfaces",
+  () => {
+    const vertex = parse(`#version 300 es
+    out vec2 v_texcoord;
+    out float v_weights[2];
+    invariant out vec4 v_color;
+    centroid out vec3 v_normal;
+    flat out vec4 v_flat;
+    out float v_unused;
+    void main() {}
+    `);
+    const fragment = parse(`#version 300 es
+    precision highp float;
+    in vec3 v_texcoord;
+    in float v_weights[3];
+    in vec4 v_color;
+    in vec3 v_normal;
+    smooth in vec4 v_flat;
+    in vec2 v_missing;
+    void main() {}
+    `);
+    const { diagnostics } = linkProgram({ vertex, fragment });
+    assertEquals(
+      diagnostics.map(({ severity, code, stage }) => [severity, code, stage]),
+      [
+        ["error", "varying-type-mismatch", "fragment"],
+        ["error", "varying-array-size-mismatch", "fragment"],
+        ["error", "varying-invariant-mismatch", "fragment"],
+        ["error", "varying-centroid-mismatch", "fragment"],
+        ["error", "varying-interpolation-mismatch", "fragment"],
+        ["error", "missing-varying", "fragment"],
+        ["warning", "unused-varying", "vertex"],
+      ],
+    );
+    assertEquals(
+      diagnostics[0].message,
+      'The type of the fragment shader input "v_texcoord" (vec3) does not match the vertex shader output "v_texcoord" (vec2)',
+    );
+    assertEquals(diagnostics[5].range.start.line, 8);
+    assertEquals(diagnostics[6].range.start.line, 7);
+  },
+);
+
+Deno.test(
+  "Merges the uniforms declared on the vertex and fragment shaders",
+  () => {
+    const vertex = parse(
+      `#version 300 es
+    uniform float u_time;
+    uniform mat4 u_matrix;
+    layout(std140) uniform Matrices { mat4 projection; mat4 view; };
+    void main() {}
+    `,
+      { stage: "vertex" },
+    );
+    const fragment = parse(`#version 300 es
+    precision highp float;
+    uniform float u_time;
+    uniform sampler2D u_texture;
+    layout(std140) uniform Matrices { mat4 projection; mat4 view; };
+    void main() {}
+    `);
+    const { uniforms, diagnostics } = programUniforms({ vertex, fragment });
+    assertEquals(diagnostics, []);
+    assertEquals(
+      uniforms.map(({ name, isBlock, stages }) => [name, isBlock, stages]),
+      [
+        ["u_time", false, ["vertex", "fragment"]],
+        ["u_matrix", false, ["vertex"]],
+        ["Matrices", true, ["vertex", "fragment"]],
+        ["u_texture", false, ["fragment"]],
+      ],
+    );
+    assertEquals(uniforms[0].declarations[1].stage, "fragment");
+  },
+);
+
+Deno.test(
+  "Reports the uniforms that do not match across the stages",
+  () => {
+    const vertex = parse(
+      `#version 300 es
+    uniform highp float u_time;
+    uniform vec3 u_lights[4];
+    uniform vec2 u_size;
+    layout(std140) uniform Matrices { mat4 projection; mat4 view; };
+    void main() {}
+    `,
+      { stage: "vertex" },
+    );
+    const fragment = parse(`#version 300 es
+    precision highp float;
+    uniform mediump float u_time;
+    uniform vec3 u_lights[2];
+    uniform vec3 u_size;
+    layout(std140) uniform Matrices { mat4 projection; mat3 view; };
+    void main() {}
+    `);
+    const { diagnostics } = programUniforms({ vertex, fragment });
+    assertEquals(
+      diagnostics.map(({ code, stage }) => [code, stage]),
+      [
+        ["uniform-precision-mismatch", "fragment"],
+        ["uniform-array-size-mismatch", "fragment"],
+        ["uniform-type-mismatch", "fragment"],
+        ["uniform-block-mismatch", "fragment"],
+      ],
+    );
+    assertEquals(
+      diagnostics[3].message,
+      'The uniform block "Matrices" on the fragment shader does not match its declaration on the vertex shader: on the member "view" the type is mat3 instead of mat4',
+    );
+    assertEquals(diagnostics[3].range.start.line, 6);
+  },
+);
+
+Deno.test(
+  "Matches the uniform blocks with the default layout applied",
+  () => {
+    const vertex = parse(
+      `#version 300 es
+    uniform Matrices { mat4 projection; layout(column_major) mat4 view; };
+    layout(row_major) uniform Lights { mat3 rotation; };
+    void main() {}
+    `,
+      { stage: "vertex" },
+    );
+    const fragment = parse(`#version 300 es
+    precision highp float;
+    layout(shared, column_major) uniform Matrices { mat4 projection; mat4 view; };
+    uniform Lights { layout(row_major) mat3 rotation; };
+    void main() {}
+    `);
+    const { diagnostics } = programUniforms({ vertex, fragment });
+    assertEquals(
+      diagnostics.map(({ code, message }) => [code, message]),
+      [[
+        "uniform-block-mismatch",
+        'The uniform block "Lights" on the fragment shader does not match its declaration on the vertex shader: the packing or the matrix order is different',
+      ]],
+    );
+  },
+);
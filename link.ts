@@ -0,0 +1,360 @@
+// Copyright 2021 Hugo Daniel Henriques Oliveira Gomes. All rights reserved.
+// Licensed under the EUPL
+import {
+  effectiveBlockLayout,
+  GLSLDiagnostic,
+  GLSLVariable,
+  ShaderStage,
+} from "./parser.ts";
+
+/**
+ * This function checks the interface between a vertex shader and a fragment
+ * shader, like the WebGL driver does when linking a program.
+ *
+ * It receives the variables returned by `parse()` for each shader. Each
+ * fragment shader input is paired with the vertex shader output that has the
+ * same `layout(location=N)`, or if there is none, with the same name.
+ *
+ * It returns the list of pairs (varyings) found, and the diagnostics for
+ * the problems found on them:
+ * - fragment inputs without a vertex output (errors)
+ * - vertex outputs that are not used by the fragment shader (warnings)
+ * - pairs with different types, array sizes, interpolation, invariance or
+ * centroid qualifiers (errors)
+ *
+ * The built-in variables (those whose name starts with "gl_") are ignored.
+ *
+ * @param shaders the variables of the vertex and the fragment shaders
+ */
+export function linkProgram(
+  { vertex, fragment }: { vertex: GLSLVariable[]; fragment: GLSLVariable[] },
+): LinkResult {
+  const outputs = vertex.filter((v) =>
+    v.qualifier === "out" && !v.name.startsWith("gl_")
+  );
+  const inputs = fragment.filter((v) =>
+    v.qualifier === "in" && !v.name.startsWith("gl_")
+  );
+  const varyings: Varying[] = [];
+  const diagnostics: GLSLDiagnostic[] = [];
+  // The vertex outputs that were already paired with a fragment input
+  const paired = new Set<GLSLVariable>();
+  for (const input of inputs) {
+    // Variables with an explicit location are paired by it, the others (and
+    // those without a pair on the same location) by their name
+    const location = input.layoutQualifiers.location;
+    const output = (location !== null &&
+      outputs.find((o) =>
+        !paired.has(o) && o.layoutQualifiers.location === location
+      )) ||
+      outputs.find((o) => !paired.has(o) && o.name === input.name);
+    if (!output) {
+      diagnostics.push(linkDiagnostic(
+        "error",
+        "missing-varying",
+        `The fragment shader input "${input.name}" is not written by the vertex shader`,
+        input,
+        "fragment",
+      ));
+      varyings.push({ name: input.name, output: null, input });
+      continue;
+    }
+    paired.add(output);
+    varyings.push({ name: input.name, output, input });
+    diagnostics.push(...compareVaryings(output, input));
+  }
+  for (const output of outputs) {
+    if (paired.has(output)) continue;
+    diagnostics.push(linkDiagnostic(
+      "warning",
+      "unused-varying",
+      `The vertex shader output "${output.name}" is not used by the fragment shader`,
+      output,
+      "vertex",
+    ));
+    varyings.push({ name: output.name, output, input: null });
+  }
+  return { varyings, diagnostics };
+}
+
+/**
+ * The result of `linkProgram()`.
+ */
+export interface LinkResult {
+  // The vertex outputs and fragment inputs, paired
+  varyings: Varying[];
+  // The problems found on the interface between the shaders
+  diagnostics: GLSLDiagnostic[];
+}
+
+/**
+ * A vertex shader output paired with a fragment shader input. One of them
+ * is null when it has no pair on the other shader.
+ */
+export interface Varying {
+  // The name of the fragment shader input (or of the vertex output when the
+  // input is missing)
+  name: string;
+  output: GLSLVariable | null;
+  input: GLSLVariable | null;
+}
+
+/**
+ * This function merges the uniforms and uniform blocks declared on each of
+ * the shaders of a program into a single list.
+ *
+ * It receives the variables returned by `parse()` for each shader stage.
+ * Uniforms are merged by their name, uniform blocks by their block name. Each
+ * entry records the stages that declare it.
+ *
+ * The GLSL ES 3.00 spec requires a uniform declared in more than one stage to
+ * have the same type, precision and array size; and uniform blocks to have
+ * the same members with the same layout. A diagnostic is returned for each
+ * declaration that does not match the first one found.
+ *
+ * @param shaders the variables of each shader stage
+ */
+export function programUniforms(
+  shaders: Partial<Record<ShaderStage, GLSLVariable[]>>,
+): ProgramUniformsResult {
+  const uniforms: ProgramUniform[] = [];
+  const diagnostics: GLSLDiagnostic[] = [];
+  const stages: ShaderStage[] = ["vertex", "fragment"];
+  for (const stage of stages) {
+    const variables = shaders[stage] || [];
+    for (const variable of variables) {
+      if (variable.qualifier !== "uniform") continue;
+      const isBlock = variable.type === "block";
+      const uniform = uniforms.find((u) =>
+        u.isBlock === isBlock && u.name === variable.name
+      );
+      if (!uniform) {
+        uniforms.push({
+          name: variable.name,
+          isBlock,
+          stages: [stage],
+          variable,
+          declarations: [{ stage, variable }],
+        });
+        continue;
+      }
+      if (!uniform.stages.includes(stage)) uniform.stages.push(stage);
+      uniform.declarations.push({ stage, variable });
+      const first = uniform.declarations[0];
+      const conflict = isBlock
+        ? compareBlocks(first.variable, variable)
+        : compareUniforms(first.variable, variable);
+      if (conflict) {
+        const kind = isBlock ? "uniform block" : "uniform";
+        diagnostics.push(linkDiagnostic(
+          "error",
+          conflict.code,
+          `The ${kind} "${variable.name}" on the ${stage} shader does not match its declaration on the ${first.stage} shader: ${conflict.reason}`,
+          variable,
+          stage,
+        ));
+      }
+    }
+  }
+  return { uniforms, diagnostics };
+}
+
+/**
+ * The result of `programUniforms()`.
+ */
+export interface ProgramUniformsResult {
+  // The uniforms and uniform blocks of the program, in the order they are
+  // first declared (vertex shader first)
+  uniforms: ProgramUniform[];
+  // The conflicts found between the declarations on different stages
+  diagnostics: GLSLDiagnostic[];
+}
+
+/**
+ * A uniform (or uniform block) of a program, merged from all the stages that
+ * declare it.
+ */
+export interface ProgramUniform {
+  // The uniform name (or the block name for uniform blocks)
+  name: string;
+  isBlock: boolean;
+  // The stages that declare it
+  stages: ShaderStage[];
+  // The first declaration found
+  variable: GLSLVariable;
+  // Every declaration found, with the stage where it was found
+  declarations: { stage: ShaderStage; variable: GLSLVariable }[];
+}
+
+/**
+ * Compares two declarations of the same uniform. Returns the first difference
+ * found or null if they match.
+ */
+function compareUniforms(
+  a: GLSLVariable,
+  b: GLSLVariable,
+): { code: string; reason: string } | null {
+  const aType = a.structName || a.type;
+  const bType = b.structName || b.type;
+  if (aType !== bType) {
+    return {
+      code: "uniform-type-mismatch",
+      reason: `the type is ${bType} instead of ${aType}`,
+    };
+  }
+  // The precision is compared after the default precision of each shader is
+  // applied (a "highp" float on a vertex shader matches a float declared
+  // after `precision highp float;` on the fragment shader)
+  if (a.effectivePrecision !== b.effectivePrecision) {
+    return {
+      code: "uniform-precision-mismatch",
+      reason:
+        `the precision is ${b.effectivePrecision} instead of ${a.effectivePrecision}`,
+    };
+  }
+  if (arraySize(a) !== arraySize(b)) {
+    return {
+      code: "uniform-array-size-mismatch",
+      reason: `the array size is ${arraySize(b)} instead of ${arraySize(a)}`,
+    };
+  }
+  return null;
+}
+
+/**
+ * Compares two declarations of the same uniform block. They must have the
+ * same layout and the same members, declared in the same order. Returns the
+ * first difference found or null if they match.
+ *
+ * The layouts are compared with their defaults applied: a block without a
+ * layout matches one declared with `layout(shared, column_major)`.
+ */
+function compareBlocks(
+  a: GLSLVariable,
+  b: GLSLVariable,
+): { code: string; reason: string } | null {
+  const code = "uniform-block-mismatch";
+  const aLayout = effectiveBlockLayout(a.layoutQualifiers);
+  const bLayout = effectiveBlockLayout(b.layoutQualifiers);
+  if (
+    aLayout.packing !== bLayout.packing ||
+    aLayout.matrixOrder !== bLayout.matrixOrder
+  ) {
+    return { code, reason: "the packing or the matrix order is different" };
+  }
+  const aMembers = a.block || [];
+  const bMembers = b.block || [];
+  if (aMembers.length !== bMembers.length) {
+    return {
+      code,
+      reason: `it has ${bMembers.length} members instead of ${aMembers.length}`,
+    };
+  }
+  for (let i = 0; i < aMembers.length; i++) {
+    const name = aMembers[i].name;
+    if (bMembers[i].name !== name) {
+      return {
+        code,
+        reason: `the member "${bMembers[i].name}" is where "${name}" was`,
+      };
+    }
+    const order =
+      effectiveBlockLayout(aMembers[i].layoutQualifiers, aLayout).matrixOrder;
+    if (
+      effectiveBlockLayout(bMembers[i].layoutQualifiers, bLayout)
+        .matrixOrder !== order
+    ) {
+      return { code, reason: `the member "${name}" has a different layout` };
+    }
+    const difference = compareUniforms(aMembers[i], bMembers[i]);
+    if (difference) {
+      return { code, reason: `on the member "${name}" ${difference.reason}` };
+    }
+  }
+  return null;
+}
+
+/**
+ * Returns the diagnostics for the differences between a vertex output and
+ * the fragment input it is paired with. Their declarations must match on the
+ * type, array size, interpolation, and the invariant and centroid qualifiers.
+ */
+function compareVaryings(
+  output: GLSLVariable,
+  input: GLSLVariable,
+): GLSLDiagnostic[] {
+  const diagnostics: GLSLDiagnostic[] = [];
+  const mismatch = (code: string, what: string, a: unknown, b: unknown) =>
+    diagnostics.push(linkDiagnostic(
+      "error",
+      code,
+      `The ${what} of the fragment shader input "${input.name}" (${b}) does not match the vertex shader output "${output.name}" (${a})`,
+      input,
+      "fragment",
+    ));
+  const outputType = output.structName || output.type;
+  const inputType = input.structName || input.type;
+  if (outputType !== inputType) {
+    mismatch("varying-type-mismatch", "type", outputType, inputType);
+  }
+  if (arraySize(output) !== arraySize(input)) {
+    mismatch(
+      "varying-array-size-mismatch",
+      "array size",
+      arraySize(output),
+      arraySize(input),
+    );
+  }
+  // Declarations without an interpolation qualifier are "smooth"
+  const outputInterpolation = output.interpolation || "smooth";
+  const inputInterpolation = input.interpolation || "smooth";
+  if (outputInterpolation !== inputInterpolation) {
+    mismatch(
+      "varying-interpolation-mismatch",
+      "interpolation qualifier",
+      outputInterpolation,
+      inputInterpolation,
+    );
+  }
+  if (output.isInvariant !== input.isInvariant) {
+    mismatch(
+      "varying-invariant-mismatch",
+      "invariant qualifier",
+      output.isInvariant,
+      input.isInvariant,
+    );
+  }
+  if (output.isCentroid !== input.isCentroid) {
+    mismatch(
+      "varying-centroid-mismatch",
+      "centroid qualifier",
+      output.isCentroid,
+      input.isCentroid,
+    );
+  }
+  return diagnostics;
+}
+
+/**
+ * Returns the array size of a variable as it is declared, i.e. "[4][2]", or
+ * "none" if it is not an array. Unsized dimensions are "[]".
+ */
+function arraySize(variable: GLSLVariable): string {
+  if (variable.dimensions.length === 0) return "none";
+  return variable.dimensions.map((size) =>
+    size === 0 && variable.isUnsizedArray ? "[]" : `[${size}]`
+  ).join("");
+}
+
+/**
+ * Creates a diagnostic on the declaration of a variable of a shader stage.
+ */
+function linkDiagnostic(
+  severity: GLSLDiagnostic["severity"],
+  code: string,
+  message: string,
+  variable: GLSLVariable,
+  stage: ShaderStage,
+): GLSLDiagnostic {
+  return { severity, code, message, range: variable.range, stage };
+}
@@ -0,0 +1,120 @@
+// Copyright 2021 Hugo Daniel Henriques Oliveira Gomes. All rights reserved.
+// Licensed under the EUPL
+import { parse } from "./parser.ts";
+import { std140Layout } from "./std140.ts";
+import { packUniformBlock, packUniformBlockMember } from "./packer.ts";
+import {
+  assertEquals,
+  assertThrows,
+} from "https://deno.land/std@0.83.0/testing/asserts.ts";
+
+const code = `#version 300 es
+struct Material {
+  vec3 ambient;
+  float shininess;
+};
+layout(std140) uniform Scene
+{
+  mat3 normalMatrix;
+  float weights[2];
+  Material materials[2];
+  ivec2 size;
+  bool enabled;
+};
+`;
+
+Deno.test(
+  "Packs the values of a uniform block with the std140 padding",
+  () => {
+    const variables = parse(code);
+    const layout = std140Layout(variables[0], variables);
+    const view = packUniformBlock(layout, {
+      normalMatrix: new Float32Array([1, 2, 3, 4, 5, 6, 7, 8, 9]),
+      weights: [0.5, 0.25],
+      materials: [
+        { ambient: [1, 0, 0], shininess: 32 },
+        { ambient: new Float32Array([0, 1, 0]) },
+      ],
+      size: [640, -480],
+      enabled: true,
+    });
+    assertEquals(view.byteLength, layout.size);
+    const floats = new Float32Array(view.buffer);
+    // Each mat3 column is padded to a vec4
+    assertEquals(
+      Array.from(floats.slice(0, 12)),
+      [1, 2, 3, 0, 4, 5, 6, 0, 7, 8, 9, 0],
+    );
+    // Each array element is padded to a vec4
+    const weights = Array.from(floats.slice(12, 20));
+    assertEquals(weights, [0.5, 0, 0, 0, 0.25, 0, 0, 0]);
+    assertEquals(Array.from(floats.slice(20, 28)), [1, 0, 0, 32, 0, 1, 0, 0]);
+    assertEquals(view.getInt32(112, true), 640);
+    assertEquals(view.getInt32(116, true), -480);
+    assertEquals(view.getUint32(120, true), 1);
+  },
+);
+
+Deno.test(
+  "Packs a single member of a uniform block",
+  () => {
+    const variables = parse(code);
+    const layout = std140Layout(variables[0], variables);
+    const buffer = new ArrayBuffer(layout.size);
+    assertEquals(
+      packUniformBlockMember(layout, "materials[1].shininess", 8, buffer),
+      { offset: 108, size: 4 },
+    );
+    assertEquals(
+      packUniformBlockMember(layout, "materials[1]", { ambient: [3] }, buffer),
+      { offset: 96, size: 16 },
+    );
+    assertEquals(
+      packUniformBlockMember(layout, "weights", [2, 3], buffer),
+      { offset: 48, size: 32 },
+    );
+    const floats = new Float32Array(buffer);
+    assertEquals(Array.from(floats.slice(24, 28)), [3, 0, 0, 8]);
+    assertEquals([floats[12], floats[16]], [2, 3]);
+    assertThrows(
+      () => packUniformBlockMember(layout, "unknown", 1, buffer),
+      Error,
+      'Unknown uniform block member "unknown"',
+    );
+    assertThrows(() => packUniformBlock(layout, { unknown: 1 }, buffer));
+  },
+);
+
+Deno.test(
+  "Packs the elements of arrays of arrays",
+  () => {
+    const variables = parse(`#version 300 es
+    layout(std140) uniform Shadows
+    {
+      float splits[2][3];
+      vec2 offsets[1];
+    };
+    `);
+    const layout = std140Layout(variables[0], variables);
+    assertEquals(layout.members[0].arrayStride, 16);
+    // Arrays of size 1 are still aligned to a vec4
+    assertEquals(
+      [layout.members[1].offset, layout.members[1].arrayStride],
+      [96, 16],
+    );
+    const buffer = new ArrayBuffer(layout.size);
+    assertEquals(
+      packUniformBlockMember(layout, "splits[1][2]", 7, buffer),
+      { offset: 80, size: 16 },
+    );
+    assertEquals(
+      packUniformBlockMember(layout, "splits[1]", [4, 5], buffer),
+      { offset: 48, size: 48 },
+    );
+    const floats = new Float32Array(buffer);
+    assertEquals([floats[12], floats[16], floats[20]], [4, 5, 7]);
+    assertThrows(() =>
+      packUniformBlockMember(layout, "splits[0][3]", 1, buffer)
+    );
+  },
+);
@@ -0,0 +1,233 @@
+// Copyright 2021 Hugo Daniel Henriques Oliveira Gomes. All rights reserved.
+// Licensed under the EUPL
+import {
+  readTypeShape,
+  Std140BlockLayout,
+  Std140MemberLayout,
+} from "./std140.ts";
+
+/**
+ * This function writes the values of a plain JS object into a buffer with the
+ * memory layout of a uniform block (as calculated by `std140Layout()`).
+ *
+ * The `values` object has a key for each block member to write, i.e.
+ * `{ projection: Float32Array, materials: [{ ambient: [1, 0, 0] }] }`.
+ * Members that are not in the `values` object are left untouched on the
+ * buffer, this allows the buffer to be partially updated.
+ *
+ * The values of each member can be:
+ * - a number or a boolean (for scalars)
+ * - an array-like of numbers (for vectors, matrices and arrays of them). The
+ * matrices are read in column major order (like `gl.uniformMatrix*`) and are
+ * written in the order set by the block layout. Arrays can also be an array
+ * with the value of each element.
+ * - an object with the values of its members (for structs)
+ * - an array of objects (for arrays of structs)
+ *
+ * It throws an exception if the `values` have a member that is not declared
+ * on the block.
+ *
+ * Returns a `DataView` over the buffer that was written. A new buffer with the
+ * size of the block is created if no `target` is provided.
+ *
+ * @param layout the std140 layout of the uniform block
+ * @param values the values of the block members to write
+ * @param target the buffer to write into (a new one is created by default)
+ */
+export function packUniformBlock(
+  layout: Std140BlockLayout,
+  values: UniformStructValue,
+  target: ArrayBuffer | DataView = new ArrayBuffer(layout.size),
+): DataView {
+  const view = target instanceof DataView ? target : new DataView(target);
+  writeStructValue(view, layout.members, values, 0, layout.name);
+  return view;
+}
+
+/**
+ * This function writes the value of a single uniform block member into a
+ * buffer with the memory layout of the block.
+ *
+ * The member is found by its GLSL access path, i.e. "projection",
+ * "materials[1]", "materials[1].ambient" or "cascades[1][0]".
+ *
+ * Returns the range of bytes of the buffer that were changed by the member.
+ * This is the range to upload with `gl.bufferSubData()`.
+ *
+ * It throws an exception if the path is not a member of the block.
+ *
+ * @param layout the std140 layout of the uniform block
+ * @param path the name (or access path) of the block member to write
+ * @param value the value of the member
+ * @param target the buffer to write into
+ */
+export function packUniformBlockMember(
+  layout: Std140BlockLayout,
+  path: string,
+  value: UniformValue,
+  target: ArrayBuffer | DataView,
+): { offset: number; size: number } {
+  const view = target instanceof DataView ? target : new DataView(target);
+  // Go through the path parts, the last one is the member to write
+  let members = layout.members;
+  let member: Std140MemberLayout | undefined;
+  let delta = 0; // The offset of the array elements being accessed
+  let elements = 1; // The number of array elements selected by the path
+  let isIndexed = false;
+  for (const part of path.split(".")) {
+    const [, name, indexString = ""] = part.match(/^(\w+)((?:\[\d+\])*)$/) ||
+      [];
+    member = members.find((m) => m.variable.name === name);
+    if (!member) break;
+    const indices = (indexString.match(/\d+/g) || []).map(Number);
+    const { dimensions } = member.variable;
+    if (
+      indices.length > dimensions.length ||
+      indices.some((index, i) => index >= dimensions[i])
+    ) {
+      throw new Error(`The index of "${path}" is out of bounds`);
+    }
+    // Arrays of arrays have their elements one after the other, the indices
+    // select the elements of an inner array (or a single element)
+    elements = dimensions.slice(indices.length)
+      .reduce((total, size) => total * size, 1);
+    const first = indices.reduce(
+      (total, index, i) => total * dimensions[i] + index,
+      0,
+    );
+    delta += first * elements * member.arrayStride;
+    isIndexed = indices.length > 0;
+    members = member.members || [];
+  }
+  if (!member) {
+    throw new Error(`Unknown uniform block member "${path}"`);
+  }
+  writeValue(view, member, value, delta, elements);
+  const size = isIndexed ? elements * member.arrayStride : member.size;
+  return { offset: member.offset + delta, size };
+}
+
+/**
+ * The values that can be written into a uniform block member.
+ */
+export type UniformValue =
+  | number
+  | boolean
+  | ArrayLike<number>
+  | UniformStructValue
+  | UniformValue[];
+
+/**
+ * The values of the members of a struct (or of a uniform block), by name.
+ */
+export interface UniformStructValue {
+  [member: string]: UniformValue;
+}
+
+/**
+ * Writes the `values` of each of the struct `members` that is set on it.
+ * The `delta` is added to the offsets of the members (it is the offset of the
+ * struct element being written when it is an array of structs).
+ */
+function writeStructValue(
+  view: DataView,
+  members: Std140MemberLayout[],
+  values: UniformStructValue,
+  delta: number,
+  structName: string,
+) {
+  for (const [name, value] of Object.entries(values)) {
+    const member = members.find((m) => m.variable.name === name);
+    if (!member) {
+      throw new Error(`Unknown member "${name}" of "${structName}"`);
+    }
+    writeValue(view, member, value, delta, member.variable.amount);
+  }
+}
+
+/**
+ * Writes the value of a member. The `elements` is the number of array
+ * elements to write (1 if the value is a single element).
+ */
+function writeValue(
+  view: DataView,
+  member: Std140MemberLayout,
+  value: UniformValue,
+  delta: number,
+  elements: number,
+) {
+  const { variable } = member;
+  if (variable.type === "struct") {
+    // Structs have an object per array element
+    const structs = (Array.isArray(value) ? value : [value]).slice(0, elements);
+    structs.forEach((struct, i) =>
+      writeStructValue(
+        view,
+        member.members || [],
+        struct as UniformStructValue,
+        delta + i * member.arrayStride,
+        variable.structName || variable.name,
+      )
+    );
+    return;
+  }
+  const { columns, rows, componentSize } = readTypeShape(variable);
+  const write = componentWriter(variable.type, view);
+  const numbers = flattenValue(value);
+  // The numbers are read in column major order, element after element
+  let index = 0;
+  for (let element = 0; element < elements; element++) {
+    const elementOffset = member.offset + delta + element * member.arrayStride;
+    for (let column = 0; column < columns; column++) {
+      for (let row = 0; row < rows; row++) {
+        if (index >= numbers.length) return;
+        const offset = columns === 1
+          ? elementOffset + row * componentSize
+          : member.isRowMajor
+          ? elementOffset + row * member.matrixStride + column * componentSize
+          : elementOffset + column * member.matrixStride + row * componentSize;
+        write(offset, numbers[index++]);
+      }
+    }
+  }
+}
+
+/**
+ * Transforms a value into the list of all its numbers (booleans are 1 or 0).
+ */
+function flattenValue(value: UniformValue): number[] {
+  if (typeof value === "number") return [value];
+  if (typeof value === "boolean") return [value ? 1 : 0];
+  if (Array.isArray(value)) {
+    return ([] as number[]).concat(...value.map(flattenValue));
+  }
+  if (typeof (value as ArrayLike<number>).length === "number") {
+    return Array.from(value as ArrayLike<number>);
+  }
+  throw new Error(`Invalid uniform value: ${JSON.stringify(value)}`);
+}
+
+/**
+ * Returns the function that writes a single component of a GLSL type into the
+ * `view`. Integer types are written as 32 bit integers, booleans as 32 bit
+ * unsigned integers (0 or 1) and the rest as floats. All values are written
+ * in little endian.
+ */
+function componentWriter(
+  type: string,
+  view: DataView,
+): (offset: number, value: number) => void {
+  if (type === "bool" || type.startsWith("bvec")) {
+    return (offset, value) => view.setUint32(offset, value ? 1 : 0, true);
+  }
+  if (type === "int" || type.startsWith("ivec")) {
+    return (offset, value) => view.setInt32(offset, value, true);
+  }
+  if (type === "uint" || type.startsWith("uvec")) {
+    return (offset, value) => view.setUint32(offset, value, true);
+  }
+  if (type === "double" || type.startsWith("d")) {
+    return (offset, value) => view.setFloat64(offset, value, true);
+  }
+  return (offset, value) => view.setFloat32(offset, value, true);
+}
@@ -0,0 +1,73 @@
+// Copyright 2021 Hugo Daniel Henriques Oliveira Gomes. All rights reserved.
+// Licensed under the EUPL
+import { parse } from "./parser.ts";
+import {
+  bench,
+  runBenchmarks,
+} from "https://deno.land/std@0.83.0/testing/bench.ts";
+
+// Run with `deno run parser.bench.ts`. The parse time must grow linearly with
+// the size of the shader, these benchmarks fail if the largest shader takes
+// much longer than the smallest one (relative to their sizes).
+
+/**
+ * Generates an "uber-shader" with about `lines` lines of code. It repeats a
+ * set of declarations (structs, uniforms, uniform blocks and functions with
+ * macros and nested parenthesis) with unique names.
+ */
+function generateShader(lines: number): string {
+  const code = [
+    "#version 300 es",
+    "precision highp float;",
+    "#define SCALE(x) ((x) * 2.0)",
+    "#define LIGHTS 4",
+  ];
+  for (let i = 0; code.length < lines; i++) {
+    code.push(
+      `struct Light${i} { vec3 color; float intensity[LIGHTS]; };`,
+      `uniform Light${i} u_light${i};`,
+      `layout(std140) uniform Block${i} { mat4 u_model${i}; vec4 u_tint; }`,
+      `  block${i};`,
+      `in vec4 v_color${i};`,
+      `vec4 shade${i}(vec4 color) {`,
+      `  // Shades the color with the light ${i}`,
+      `  return color * SCALE(u_light${i}.intensity[0]) + (block${i}.u_tint);`,
+      `}`,
+    );
+  }
+  code.push("out vec4 outColor;", "void main() { outColor = v_color0; }");
+  return code.join("\n");
+}
+
+const sizes = [5000, 10000, 20000, 40000];
+for (const lines of sizes) {
+  const shader = generateShader(lines);
+  bench({
+    name: `parse a shader with ${lines} lines`,
+    runs: 5,
+    func(b) {
+      b.start();
+      parse(shader, { resolveStructs: true });
+      b.stop();
+    },
+  });
+}
+
+// The first parses are slower (the code is not optimized yet), they are done
+// before the benchmarks to not count on the smallest shader time.
+const warmUpShader = generateShader(sizes[0]);
+for (let i = 0; i < 3; i++) parse(warmUpShader, { resolveStructs: true });
+const { results } = await runBenchmarks();
+// The time per line of the largest shader is compared with the one of the
+// smallest. It stays the same when the parse time grows linearly, a parser
+// with a quadratic cost takes longer per line as the shader grows.
+const timePerLine = (index: number) =>
+  results[index].measuredRunsAvgMs / sizes[index];
+const growth = timePerLine(sizes.length - 1) / timePerLine(0);
+if (growth > 2) {
+  throw new Error(
+    `The parse time per line grows ${growth.toFixed(1)} times from ${
+      sizes[0]
+    } to ${sizes[sizes.length - 1]} lines`,
+  );
+}
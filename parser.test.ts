@@ -1,9 +1,17 @@
 // Copyright 2021 Hugo Daniel Henriques Oliveira Gomes. All rights reserved.
 // Licensed under the EUPL
-import { GLSLVariable, parse as parseVariables } from "./parser.ts";
+import {
+  FunctionDeclaration,
+  GLSLVariable,
+  isInputVariable,
+  parse as parseVariables,
+  parseDeclarations,
+  parseFunctions,
+} from "./parser.ts";
 import {
   assert,
   assertEquals,
+  assertThrows,
 } from "https://deno.land/std@0.83.0/testing/asserts.ts";
 
 Deno.test(
@@ -644,6 +652,989 @@ Deno.test(
     }
   },
 );
+Deno.test(
+  "Sets the source range of each variable on the original code",
+  () => {
+    const code = `#version 300 es
+#define SOME_MACRO 1
+/* in vec4 commented; */ precision highp float;
+// uniform float u_commented;
+layout(location = 0) in vec2 position;
+uniform PerScene
+{
+  mat4 projection; // the projection
+  float values[3];
+} u_perScene;
+struct Material { vec3 ambient; };
+void main() { gl_Position = vec4(position, 0.0, 1.0); }
+`;
+    const variables = parseVariables(code);
+    assertEquals(variables.length, 3);
+    const [position, perScene, material] = variables;
+    const positionDeclaration = "layout(location = 0) in vec2 position";
+    assertEquals(position.range, {
+      start: { line: 5, column: 1, offset: code.indexOf(positionDeclaration) },
+      end: {
+        line: 5,
+        column: positionDeclaration.length + 1,
+        offset: code.indexOf(positionDeclaration) + positionDeclaration.length,
+      },
+    });
+    assertEquals(perScene.range.start.line, 6);
+    assertEquals(perScene.range.start.offset, code.indexOf("uniform PerScene"));
+    assertEquals(perScene.range.end.line, 10);
+    assertEquals(perScene.range.end.column, 13);
+    assert(perScene.block);
+    assertEquals(perScene.block[0].range.start, {
+      line: 8,
+      column: 3,
+      offset: code.indexOf("mat4 projection"),
+    });
+    assertEquals(perScene.block[1].range.start.line, 9);
+    assertEquals(
+      perScene.block[1].range.end.offset,
+      code.indexOf("float values[3]") + "float values[3]".length,
+    );
+    assertEquals(material.range.start.line, 11);
+    assert(material.block);
+    assertEquals(material.block[0].range.start, {
+      line: 11,
+      column: 19,
+      offset: code.indexOf("vec3 ambient"),
+    });
+  },
+);
+Deno.test(
+  "Can skip malformed declarations and report them as diagnostics",
+  () => {
+    const code = `#version 300 es
+in vec4 a_position;
+uniform float;
+uniform Lights
+{
+  vec3 color;
+  vec3 directions[MAX_LIGHTS];
+};
+uniform vec2 u_resolution;
+void main() {}
+`;
+    assertThrows(() => parseVariables(code));
+    const { variables, diagnostics } = parseVariables(code, { recover: true });
+    assertEquals(variables.length, 3);
+    assertVariableIs(
+      variables[0],
+      { name: "a_position", type: "vec4", qualifier: "in" },
+    );
+    assertVariableIs(
+      variables[1],
+      { name: "Lights", type: "block", qualifier: "uniform" },
+    );
+    assertEquals(variables[1].block?.length, 1);
+    assertVariableIs(
+      variables[2],
+      { name: "u_resolution", type: "vec2", qualifier: "uniform" },
+    );
+    assertEquals(diagnostics.length, 2);
+    assertEquals(diagnostics[0].severity, "error");
+    assertEquals(diagnostics[0].code, "invalid-block-member");
+    assertEquals(
+      diagnostics[0].message,
+      'Unable to read the "directions" declaration: its array size is not a number',
+    );
+    assertEquals(diagnostics[0].range.start.line, 7);
+    assertEquals(diagnostics[1].code, "invalid-declaration");
+    assertEquals(
+      diagnostics[1].message,
+      "Unable to read the variable declaration: it has no name",
+    );
+    assertEquals(diagnostics[1].range.start, {
+      line: 3,
+      column: 1,
+      offset: 36,
+    });
+    // Block members that are not declarations are reported too
+    const malformed = `#version 300 es
+    uniform Material { 42 bad; foo; float shininess; } material;
+    void main() {}
+    `;
+    assertThrows(() => parseVariables(malformed), Error, "Invalid block");
+    const result = parseVariables(malformed, { recover: true });
+    assertEquals(
+      result.variables[0].block?.map(({ name }) => name),
+      ["shininess"],
+    );
+    assertEquals(
+      result.diagnostics.map(({ code, message }) => [code, message]),
+      [
+        [
+          "invalid-block-member",
+          'Unable to read the "bad" declaration: it has no valid type',
+        ],
+        [
+          "invalid-block-member",
+          'Unable to read the "foo" declaration: it has no valid type',
+        ],
+      ],
+    );
+  },
+);
+Deno.test(
+  'Reports the statements without a ";" and the blocks that are not closed',
+  () => {
+    const twoUniforms = `#version 300 es
+uniform float a
+uniform float b;
+`;
+    assertThrows(() => parseVariables(twoUniforms), Error, "Unexpected");
+    const uniforms = parseVariables(twoUniforms, { recover: true });
+    assertEquals(uniforms.variables.map(({ name }) => name), ["a"]);
+    assertEquals(
+      uniforms.diagnostics.map(({ code, message, range }) => [
+        code,
+        message,
+        range.start.line,
+      ]),
+      [[
+        "unexpected-token",
+        'Unexpected "uniform" after the "a" declaration',
+        3,
+      ]],
+    );
+    // A declaration without its ";" before a function is not a function
+    const beforeFunction = `#version 300 es
+in vec2 uv
+void main(){}
+`;
+    assertThrows(() => parseVariables(beforeFunction), Error, "Missing");
+    const input = parseDeclarations(beforeFunction, { recover: true });
+    assertEquals(
+      input.declarations.map((d) => d.kind === "directive" ? d.name : d.kind),
+      ["version", "variable", "function"],
+    );
+    assertEquals(
+      input.diagnostics.map(({ code, message }) => [code, message]),
+      [["missing-semicolon", 'Missing a ";" after "in vec2 uv"']],
+    );
+    const unclosed = `#version 300 es
+uniform Block {
+`;
+    assertThrows(() => parseVariables(unclosed), Error, "Missing the");
+    const block = parseVariables(unclosed, { recover: true });
+    assertEquals(
+      block.diagnostics.map(({ code, range }) => [code, range.start.line]),
+      [["unclosed-block", 2]],
+    );
+    // Nothing can come after the instance name of a block
+    const trailing = parseVariables(
+      "uniform Block { float x; } u_block[2] extra;",
+      { recover: true },
+    );
+    assertEquals(trailing.variables[0].instanceName, "u_block");
+    assertEquals(
+      trailing.diagnostics.map(({ message }) => message),
+      ['Unexpected "extra" after the "u_block" declaration'],
+    );
+  },
+);
+Deno.test(
+  "Preprocesses the shader code with the provided defines",
+  () => {
+    const code = `#version 300 es
+#define MAX_BONES 64
+#ifdef USE_SKINNING
+uniform mat4 u_bones[MAX_BONES];
+#else
+uniform mat4 u_model;
+#endif
+in vec4 a_position;
+`;
+    const variables = parseVariables(code);
+    assertEquals(variables.length, 2);
+    assertVariableIs(
+      variables[0],
+      { name: "u_model", type: "mat4", qualifier: "uniform" },
+    );
+    const skinned = parseVariables(code, { defines: { USE_SKINNING: 1 } });
+    assertEquals(skinned.length, 2);
+    assertVariableIs(
+      skinned[0],
+      { name: "u_bones", type: "mat4", qualifier: "uniform", amount: 64 },
+    );
+    assertEquals(skinned[0].range.end, {
+      line: 4,
+      column: 32,
+      offset: code.indexOf("];") + 1,
+    });
+    assertEquals(skinned[1].range.start, {
+      line: 8,
+      column: 1,
+      offset: code.indexOf("in vec4 a_position"),
+    });
+  },
+);
+Deno.test(
+  "Can parse GLSL ES 1.00 attribute and varying variables",
+  () => {
+    const vertex = parseVariables(`
+    attribute vec4 a_position;
+    attribute vec2 a_texcoord;
+    uniform mat4 u_matrix;
+    varying vec2 v_texcoord;
+    void main() {
+      gl_Position = u_matrix * a_position;
+      v_texcoord = a_texcoord;
+    }
+    `);
+    assertEquals(vertex.length, 4);
+    assertVariableIs(
+      vertex[0],
+      { name: "a_position", type: "vec4", qualifier: "in" },
+    );
+    assertVariableIs(
+      vertex[1],
+      { name: "a_texcoord", type: "vec2", qualifier: "in" },
+    );
+    assertVariableIs(
+      vertex[3],
+      { name: "v_texcoord", type: "vec2", qualifier: "out" },
+    );
+    assert(vertex.every((variable) => variable.version === 100));
+
+    const fragment = parseVariables(`#version 100
+    precision mediump float;
+    varying vec2 v_texcoord;
+    uniform sampler2D u_texture;
+    void main() {
+      gl_FragColor = texture2D(u_texture, v_texcoord);
+    }
+    `);
+    assertEquals(fragment.length, 3);
+    assertVariableIs(
+      fragment[0],
+      { name: "v_texcoord", type: "vec2", qualifier: "in" },
+    );
+    assertVariableIs(
+      fragment[2],
+      { name: "gl_FragColor", type: "vec4", qualifier: "out" },
+    );
+    assertEquals(fragment[2].range.start.line, 6);
+    // The stage can be set explicitly
+    const varyings = parseVariables(
+      "varying vec2 v_texcoord;",
+      { stage: "vertex" },
+    );
+    assertVariableIs(
+      varyings[0],
+      { name: "v_texcoord", type: "vec2", qualifier: "out" },
+    );
+    // GLSL ES 3.00 shaders keep reading in/out variables
+    const modern = parseVariables("in vec2 v_texcoord;", { version: 300 });
+    assertEquals(modern[0].version, 300);
+  },
+);
+Deno.test(
+  "Reads the layout qualifiers and the default block layout",
+  () => {
+    const variables = parseVariables(`#version 300 es
+    layout(location = 3) in vec4 a_position;
+    layout(std140, binding=2, custom, size = 4) uniform Camera { mat4 view; };
+    layout(std140, row_major) uniform;
+    uniform Lights { vec4 colors[4]; };
+    layout(column_major, packed) uniform Bones { mat4 bones[2]; };
+    void main() {}
+    `);
+    assertEquals(variables.length, 4);
+    assertEquals(variables[0].layoutQualifiers, {
+      location: 3,
+      binding: null,
+      offset: null,
+      packing: null,
+      matrixOrder: null,
+      other: {},
+    });
+    assertEquals(variables[1].layout, "std140,binding=2,custom,size=4");
+    assertEquals(variables[1].layoutQualifiers, {
+      location: null,
+      binding: 2,
+      offset: null,
+      packing: "std140",
+      matrixOrder: null,
+      other: { custom: true, size: "4" },
+    });
+    // The blocks after the default layout statement use it
+    assertVariableIs(
+      variables[2],
+      { name: "Lights", type: "block", qualifier: "uniform" },
+    );
+    assertEquals(variables[2].layoutQualifiers.packing, "std140");
+    assertEquals(variables[2].layoutQualifiers.matrixOrder, "row_major");
+    assertEquals(variables[3].layoutQualifiers.packing, "packed");
+    assertEquals(variables[3].layoutQualifiers.matrixOrder, "column_major");
+    // The values are integer literals (hexadecimal, octal or unsigned too)
+    const [uv, camera] = parseVariables(`#version 300 es
+    layout(location = 0x2) in vec2 a_uv;
+    layout(std140, binding = 1u, offset = 010) uniform Camera { mat4 view; };
+    void main() {}
+    `);
+    assertEquals(uv.layoutQualifiers.location, 2);
+    assertEquals(camera.layoutQualifiers.binding, 1);
+    assertEquals(camera.layoutQualifiers.offset, 8);
+  },
+);
+
+Deno.test(
+  "Reads the instance name and array size of uniform blocks",
+  () => {
+    const variables = parseVariables(`#version 300 es
+    struct Material { vec3 color; } material;
+    uniform PerScene { Material material; } u_perScene;
+    uniform Light { vec4 color; } lights[4];
+    uniform Camera { mat4 view; }u_camera [ 2 ];
+    uniform Globals { float time; };
+    void main() {}
+    `);
+    assertEquals(variables.length, 5);
+    const blocks = variables.slice(0, 4);
+    assertEquals(
+      blocks.map(({ name, qualifier, type }) => [name, qualifier, type]),
+      [
+        ["PerScene", "uniform", "block"],
+        ["Light", "uniform", "block"],
+        ["Camera", "uniform", "block"],
+        ["Globals", "uniform", "block"],
+      ],
+    );
+    assertEquals(
+      blocks.map(({ instanceName, amount }) => [instanceName, amount]),
+      [["u_perScene", 1], ["lights", 4], ["u_camera", 2], [null, 1]],
+    );
+    assertEquals(variables[1].block?.[0].name, "color");
+    // Structs are placed at the end, their trailing names are not instances
+    assertEquals(variables[4].instanceName, null);
+  },
+);
+
+Deno.test(
+  "Reads a variable for each comma separated declarator",
+  () => {
+    const code = `#version 300 es
+    struct Light { vec3 color, direction; float intensity; };
+    uniform highp float u_a, u_b[2] , u_c;
+    in vec2 a_uv0,a_uv1;
+    uniform Lights { Light lights[2], sun; mat4 view, projection; };
+    void main() {}
+    `;
+    const variables = parseVariables(code);
+    assertEquals(
+      variables.map(({ name, type, amount, precision }) => [
+        name,
+        type,
+        amount,
+        precision,
+      ]),
+      [
+        ["u_a", "float", 1, "highp"],
+        ["u_b", "float", 2, "highp"],
+        ["u_c", "float", 1, "highp"],
+        ["a_uv0", "vec2", 1, null],
+        ["a_uv1", "vec2", 1, null],
+        ["Lights", "block", 1, null],
+        ["Light", "block", 1, null],
+      ],
+    );
+    assertEquals(
+      variables[5].block?.map((
+        { name, amount, structName },
+      ) => [name, amount, structName]),
+      [
+        ["lights", 2, "Light"],
+        ["sun", 1, "Light"],
+        ["view", 1, null],
+        ["projection", 1, null],
+      ],
+    );
+    assertEquals(
+      variables[6].block?.map(({ name, type }) => [name, type]),
+      [["color", "vec3"], ["direction", "vec3"], ["intensity", "float"]],
+    );
+    // Each declarator is located from its name through its array sizes
+    const textOf = ({ range }: GLSLVariable) =>
+      code.slice(range.start.offset, range.end.offset);
+    assertEquals(variables.slice(0, 5).map(textOf), [
+      "u_a",
+      "u_b[2]",
+      "u_c",
+      "a_uv0",
+      "a_uv1",
+    ]);
+    assertEquals(variables[5].block?.map(textOf), [
+      "lights[2]",
+      "sun",
+      "view",
+      "projection",
+    ]);
+    const [light, lights] = parseVariables(
+      "uniform struct Light { float intensity; } u_light = Light(1.0), u_lights[2];",
+    );
+    assertEquals(
+      [light, lights].map((
+        { range },
+      ) => [range.start.column, range.end.column]),
+      [[43, 63], [65, 76]],
+    );
+  },
+);
+
+Deno.test(
+  "Reads the interpolation, the constants and the effective precision",
+  () => {
+    const fragment = parseVariables(`#version 300 es
+    const int MAX_LIGHTS = 4, MAX_SHADOWS=2;
+    uniform float u_unset;
+    precision mediump float;
+    flat in int v_id;
+    smooth in vec2 v_uv;
+    uniform highp vec3 u_position;
+    uniform sampler2D u_texture;
+    precision highp float;
+    uniform Lights { mat4 view; lowp vec4 color; bool enabled; };
+    out vec4 outColor;
+    void main() {}
+    `);
+    assertEquals(
+      fragment.map((
+        { name, qualifier, interpolation, precision, effectivePrecision },
+      ) => [name, qualifier, interpolation, precision, effectivePrecision]),
+      [
+        ["MAX_LIGHTS", "const", null, null, "mediump"],
+        ["MAX_SHADOWS", "const", null, null, "mediump"],
+        ["u_unset", "uniform", null, null, null],
+        ["v_id", "in", "flat", null, "mediump"],
+        ["v_uv", "in", "smooth", null, "mediump"],
+        ["u_position", "uniform", null, "highp", "highp"],
+        ["u_texture", "uniform", null, null, "lowp"],
+        ["Lights", "uniform", null, null, null],
+        ["outColor", "out", null, null, "highp"],
+      ],
+    );
+    assertEquals(
+      fragment[7].block?.map(({ effectivePrecision }) => effectivePrecision),
+      ["highp", "lowp", null],
+    );
+    // The constants are not inputs
+    assertEquals(
+      fragment.filter(isInputVariable).map(({ name }) => name),
+      ["u_unset", "v_id", "v_uv", "u_position", "u_texture", "Lights"],
+    );
+    // Vertex shaders have highp floats and ints by default
+    const [position] = parseVariables(`#version 300 es
+    in vec4 a_position;
+    void main() { gl_Position = a_position; }
+    `);
+    assertEquals(position.effectivePrecision, "highp");
+  },
+);
+
+Deno.test(
+  "Evaluates the constant expressions of array sizes and constants",
+  () => {
+    const variables = parseVariables(`#version 300 es
+    #define MAX_LIGHTS 2
+    const int N = 0x4;
+    const uint M = (N + 2u) * 2u, K = M % 5;
+    const float PI = 3.14159;
+    struct Light { vec3 colors[ N ]; };
+    uniform vec4 u_lights[MAX_LIGHTS * (N - 1)];
+    uniform float u_weights [ 12 ];
+    uniform Lights { Light lights[K]; vec4 values[(K + 1) / 2]; };
+    void main() {}
+    `);
+    assertEquals(
+      variables.map(({ name, qualifier, amount, value }) => [
+        name,
+        qualifier,
+        amount,
+        value,
+      ]),
+      [
+        ["N", "const", 1, 4],
+        ["M", "const", 1, 12],
+        ["K", "const", 1, 2],
+        ["PI", "const", 1, null],
+        ["u_lights", "uniform", 6, null],
+        ["u_weights", "uniform", 12, null],
+        ["Lights", "uniform", 1, null],
+        ["Light", "struct", 1, null],
+      ],
+    );
+    assertEquals(
+      variables[6].block?.map(({ name, amount }) => [name, amount]),
+      [["lights", 2], ["values", 1]],
+    );
+    assertEquals(variables[7].block?.[0].amount, 4);
+    // Array sizes that can't be evaluated are not valid
+    const { diagnostics } = parseVariables(
+      `#version 300 es
+      uniform float u_values[UNKNOWN];`,
+      { recover: true },
+    );
+    assertEquals(
+      diagnostics[0].message,
+      'Unable to read the "u_values" declaration: its array size is not a number',
+    );
+    // Array sizes must be greater than zero
+    const invalid = parseVariables(
+      `#version 300 es
+      const int N = -1;
+      uniform float u_negative[-2];
+      uniform float u_empty[0];
+      uniform float u_constant[N + 1][2];
+      uniform float u_valid[2];`,
+      { recover: true },
+    );
+    assertEquals(invalid.variables.map(({ name }) => name), ["N", "u_valid"]);
+    assertEquals(
+      invalid.diagnostics.map(({ message }) => message),
+      ["u_negative", "u_empty", "u_constant"].map((name) =>
+        `Unable to read the "${name}" declaration: its array size is not a number`
+      ),
+    );
+    assertThrows(
+      () => parseVariables("uniform float u_empty[0];"),
+      Error,
+      "Unable to read a full GLSL variable",
+    );
+  },
+);
+
+Deno.test(
+  "Reads the dimensions of arrays of arrays and unsized arrays",
+  () => {
+    const variables = parseVariables(`#version 300 es
+    struct Cascade { float[3] splits; vec2 offsets[2][ 3 ]; };
+    uniform mat4 u_cascades[4][2];
+    uniform float[3] u_weights[2];
+    uniform vec4 [2] u_colors;
+    uniform Cascades { Cascade cascades[2]; float data[]; } u_shadows[3][2];
+    uniform float u_value;
+    void main() {}
+    `);
+    assertEquals(
+      variables.map(({ name, type, dimensions, amount, isUnsizedArray }) => [
+        name,
+        type,
+        dimensions,
+        amount,
+        isUnsizedArray,
+      ]),
+      [
+        ["u_cascades", "mat4", [4, 2], 8, false],
+        ["u_weights", "float", [2, 3], 6, false],
+        ["u_colors", "vec4", [2], 2, false],
+        ["Cascades", "block", [3, 2], 6, false],
+        ["u_value", "float", [], 1, false],
+        ["Cascade", "block", [], 1, false],
+      ],
+    );
+    assertEquals(
+      variables[3].block?.map(({ name, dimensions, isUnsizedArray }) => [
+        name,
+        dimensions,
+        isUnsizedArray,
+      ]),
+      [["cascades", [2], false], ["data", [0], true]],
+    );
+    assertEquals(
+      variables[5].block?.map(({ name, dimensions }) => [name, dimensions]),
+      [["splits", [3]], ["offsets", [2, 3]]],
+    );
+  },
+);
+
+Deno.test(
+  "Resolves the structs used by the variables",
+  () => {
+    const code = `#version 300 es
+    struct Material { vec3 color; };
+    struct Light { vec3 direction; Material material; };
+    uniform Light u_light;
+    uniform Scene { Light lights[2]; };
+    void main() {}
+    `;
+    const variables = parseVariables(code, { resolveStructs: true });
+    const [light, scene, material] = variables;
+    assertEquals(light.struct?.name, "Light");
+    assertEquals(
+      light.struct?.block?.map(({ name, struct }) => [name, struct?.name]),
+      [["direction", undefined], ["material", "Material"]],
+    );
+    assertEquals(
+      light.struct?.block?.[1].struct?.block?.map(({ name }) => name),
+      ["color"],
+    );
+    assertEquals(scene.block?.[0].struct?.name, "Light");
+    assertEquals(material.struct, null);
+    // Without the option the struct is not set
+    assertEquals(parseVariables(code)[0].struct, null);
+  },
+);
+
+Deno.test(
+  "Reports the variables that use an unknown struct",
+  () => {
+    const code = `#version 300 es
+    struct Light { vec3 direction; Shadow shadow; };
+    uniform Material u_material;
+    uniform Scene { Light light; Fog fog; };
+    void main() {}
+    `;
+    assertThrows(
+      () => parseVariables(code, { resolveStructs: true }),
+      Error,
+      'Unknown struct "Shadow" used by "shadow"',
+    );
+    const { variables, diagnostics } = parseVariables(
+      code,
+      { recover: true, resolveStructs: true },
+    );
+    assertEquals(
+      diagnostics.map(({ code, message, range }) => [
+        code,
+        message,
+        range.start.line,
+      ]),
+      [
+        ["unknown-struct", 'Unknown struct "Shadow" used by "shadow"', 2],
+        ["unknown-struct", 'Unknown struct "Material" used by "u_material"', 3],
+        ["unknown-struct", 'Unknown struct "Fog" used by "fog"', 4],
+      ],
+    );
+    assertEquals(variables.map(({ name }) => name), ["Scene", "Light"]);
+    assertEquals(variables[0].block?.map(({ name }) => name), ["light"]);
+    // Without the option the struct can be declared on another code string
+    const chunk = parseVariables(code);
+    assertEquals(
+      chunk.map(({ name, structName }) => [name, structName]),
+      [["u_material", "Material"], ["Scene", null], ["Light", null]],
+    );
+    assertEquals(
+      chunk[1].block?.map(({ name, structName }) => [name, structName]),
+      [["light", "Light"], ["fog", "Fog"]],
+    );
+  },
+);
+
+Deno.test(
+  "Reads the structs declared inline with a variable",
+  () => {
+    const code = `#version 300 es
+    uniform struct Light { vec3 color; float intensity; } u_light, u_lights[2];
+    uniform struct { Light light; vec2 uv; } u_anonymous;
+    uniform Light u_other;
+    void main() {}
+    `;
+    const variables = parseVariables(code);
+    assertEquals(
+      variables.map(({ name, qualifier, type, structName, struct }) => [
+        name,
+        qualifier,
+        type,
+        structName,
+        struct?.name,
+      ]),
+      [
+        ["u_light", "uniform", "struct", "Light", "Light"],
+        ["u_lights", "uniform", "struct", "Light", "Light"],
+        ["u_anonymous", "uniform", "struct", null, ""],
+        ["u_other", "uniform", "struct", "Light", undefined],
+        ["Light", "struct", "block", null, undefined],
+      ],
+    );
+    assertEquals(variables[1].dimensions, [2]);
+    assertEquals(
+      variables[0].struct?.block?.map(({ name, type }) => [name, type]),
+      [["color", "vec3"], ["intensity", "float"]],
+    );
+    assertEquals(
+      variables[2].struct?.block?.map(({ name, structName }) => [
+        name,
+        structName,
+      ]),
+      [["light", "Light"], ["uv", null]],
+    );
+    assertEquals(variables[4].block?.length, 2);
+    // The struct is located from the start of the declaration to its "}"
+    const { range } = variables[4];
+    assertEquals(
+      code.slice(range.start.offset, range.end.offset),
+      "uniform struct Light { vec3 color; float intensity; }",
+    );
+    // The anonymous structs are not declarations by themselves
+    assertEquals(
+      parseDeclarations(code).flatMap((d) =>
+        "variable" in d ? [[d.kind, d.variable.name]] : []
+      ),
+      [
+        ["struct", "Light"],
+        ["variable", "u_light"],
+        ["variable", "u_lights"],
+        ["variable", "u_anonymous"],
+        ["variable", "u_other"],
+      ],
+    );
+  },
+);
+
+Deno.test(
+  "Reads the declarations regardless of their formatting",
+  () => {
+    const variables = parseVariables(`#version 300 es
+    const int N = ((1 + 1));
+    uniform float u_a[ 2 ]; const int M = (2);
+    layout(location = 1) out vec4 outColor;
+    uniform sampler2D u_textures
+      [N * M];
+    vec4 tint(vec4 c) { return c * (1.0); }
+    layout(std140) uniform Globals { vec2 u_size ; } globals;
+    in vec2 v_uv;
+    void main() { outColor = tint(texture(u_textures[0], v_uv)); }
+    `);
+    assertEquals(
+      variables.map(({ name, type, amount, layout }) => [
+        name,
+        type,
+        amount,
+        layout,
+      ]),
+      [
+        ["N", "int", 1, null],
+        ["u_a", "float", 2, null],
+        ["M", "int", 1, null],
+        ["outColor", "vec4", 1, "location=1"],
+        ["u_textures", "sampler2D", 4, null],
+        ["Globals", "block", 1, "std140"],
+        ["v_uv", "vec2", 1, null],
+      ],
+    );
+    assertEquals(variables[0].value, 2);
+    assertEquals(variables[2].value, 2);
+    assertEquals(variables[5].instanceName, "globals");
+    assertEquals(variables[5].block?.[0].name, "u_size");
+    assertEquals(variables[1].range?.start, { line: 3, column: 5, offset: 49 });
+  },
+);
+
+Deno.test(
+  "Lists the top-level declarations in the order they are on the code",
+  () => {
+    const declarations = parseDeclarations(`#version 300 es
+    #define COUNT 2
+    precision highp float;
+    struct Light { vec3 color; };
+    uniform Light u_lights[COUNT], u_sun;
+    layout(std140) uniform Globals { mat4 u_view; };
+    vec4 shade(Light light);
+    out vec4 outColor;
+    vec4 shade(Light light) { return vec4(light.color, 1.0); }
+    void main() { outColor = shade(u_sun); }
+    `);
+    assertEquals(
+      declarations.map((d) => [
+        d.kind,
+        "variable" in d ? d.variable.name : "name" in d ? d.name : d.type,
+        d.range.start.line,
+      ]),
+      [
+        ["directive", "version", 1],
+        ["directive", "define", 2],
+        ["precision", "float", 3],
+        ["struct", "Light", 4],
+        ["variable", "u_lights", 5],
+        ["variable", "u_sun", 5],
+        ["block", "Globals", 6],
+        ["function", "shade", 7],
+        ["variable", "outColor", 8],
+        ["function", "shade", 9],
+        ["function", "main", 10],
+      ],
+    );
+    assertEquals(declarations[1], {
+      kind: "directive",
+      name: "define",
+      content: "COUNT 2",
+      range: {
+        start: { line: 2, column: 5, offset: 20 },
+        end: { line: 2, column: 20, offset: 35 },
+      },
+    });
+    const [prototype, definition] = [declarations[7], declarations[9]];
+    assert(prototype.kind === "function" && definition.kind === "function");
+    assertEquals([prototype.returnType, prototype.hasBody], ["vec4", false]);
+    assertEquals(definition.hasBody, true);
+    assertEquals(definition.range.end.column, 63);
+    const { diagnostics } = parseDeclarations(
+      "uniform Unknown u_a; uniform vec2 u_b;",
+      { recover: true, resolveStructs: true },
+    );
+    assertEquals(diagnostics.map(({ code }) => code), ["unknown-struct"]);
+  },
+);
+
+Deno.test(
+  "Lists the functions that return an array",
+  () => {
+    const functions = parseFunctions(`#version 300 es
+    const int N = 2;
+    float[2] weights();
+    highp vec3[N + 1] colors(float[2] w) { return vec3[3](vec3(w[0])); }
+    float values[2] = float[2](1.0, 2.0);
+    void main() {}
+    `);
+    assertEquals(
+      functions.map((
+        { name, returnType, returnPrecision, returnDimensions, hasBody },
+      ) => [name, returnType, returnPrecision, returnDimensions, hasBody]),
+      [
+        ["weights", "float", null, [2], false],
+        ["colors", "vec3", "highp", [3], true],
+        ["main", "void", null, [], true],
+      ],
+    );
+    assertEquals(functions[1].parameters[0].dimensions, [2]);
+  },
+);
+
+Deno.test(
+  "Lists the global variables and the invariant redeclarations",
+  () => {
+    const code = `#version 300 es
+    struct Light { vec3 color; };
+    float g_global;
+    highp vec3 g_b = vec3(1.0);
+    Light g_light;
+    out vec4 v_color;
+    invariant gl_Position;
+    invariant v_color;
+    void main() { gl_Position = vec4(g_global); }
+    `;
+    const variables = parseDeclarations(code).flatMap((d) =>
+      d.kind === "variable" ? [d.variable] : []
+    );
+    assertEquals(
+      variables.map((
+        { qualifier, type, name, isInvariant, effectivePrecision },
+      ) => [qualifier, type, name, isInvariant, effectivePrecision]),
+      [
+        ["global", "float", "g_global", false, "highp"],
+        ["global", "vec3", "g_b", false, "highp"],
+        ["global", "struct", "g_light", false, null],
+        ["out", "vec4", "v_color", false, "highp"],
+        ["out", "vec4", "gl_Position", true, "highp"],
+        ["out", "vec4", "v_color", true, "highp"],
+      ],
+    );
+    assertEquals(variables[2].structName, "Light");
+    assertEquals(variables[4].range.start, {
+      line: 7,
+      column: 5,
+      offset: code.indexOf("invariant gl_Position"),
+    });
+    // `parse()` only lists the inputs, outputs and uniforms
+    assertEquals(parseVariables(code).map(({ name }) => name), [
+      "v_color",
+      "Light",
+    ]);
+  },
+);
+
+Deno.test(
+  "Lists the signatures of the functions",
+  () => {
+    const functions = parseFunctions(`#version 300 es
+    const int SAMPLES = 4;
+    float sum(float, float);
+    highp vec4 blur(sampler2D image, const in vec2 offsets[SAMPLES * 2]);
+    Light pick(inout Light lights[2], out mediump float[3] weights);
+    void setup(void) {}
+    void main() { float total = sum(1.0, 2.0); }
+    `);
+    assertEquals(
+      functions.map(({ name, returnType, returnStructName, hasBody }) => [
+        name,
+        returnType,
+        returnStructName,
+        hasBody,
+      ]),
+      [
+        ["sum", "float", null, false],
+        ["blur", "vec4", null, false],
+        ["pick", "struct", "Light", false],
+        ["setup", "void", null, true],
+        ["main", "void", null, true],
+      ],
+    );
+    assertEquals(
+      functions[0].parameters.map(({ name, type }) => [name, type]),
+      [
+        [null, "float"],
+        [null, "float"],
+      ],
+    );
+    assertEquals(functions[1].returnPrecision, "highp");
+    assertEquals(functions[1].parameters[1], {
+      name: "offsets",
+      qualifier: "in",
+      isConst: true,
+      type: "vec2",
+      structName: null,
+      precision: null,
+      dimensions: [8],
+      amount: 8,
+    });
+    assertEquals(
+      functions[2].parameters.map((
+        { name, qualifier, type, structName, precision, dimensions },
+      ) => [name, qualifier, type, structName, precision, dimensions]),
+      [
+        ["lights", "inout", "struct", "Light", null, [2]],
+        ["weights", "out", "float", null, "mediump", [3]],
+      ],
+    );
+    assertEquals(functions[3].parameters, []);
+    assertEquals(functions[1].returnDimensions, []);
+    assertEquals(functions[0].references, []);
+    assertEquals(functions[4].references, ["total", "sum"]);
+    assertEquals(functions[4].range.start, { line: 7, column: 5, offset: 243 });
+    // The array sizes that can't be read are reported and read as 0
+    const code = `#version 300 es
+    float[M] scale(vec2 offsets[N], float weights[]);
+    void main() {}
+    `;
+    assertThrows(() => parseDeclarations(code), Error, "[M]");
+    const { declarations, diagnostics } = parseDeclarations(code, {
+      recover: true,
+    });
+    const [scale] = declarations.filter((d): d is FunctionDeclaration =>
+      d.kind === "function"
+    );
+    assertEquals(scale.returnDimensions, [0]);
+    assertEquals(
+      scale.parameters.map(({ dimensions, amount }) => [dimensions, amount]),
+      [[[0], 0], [[0], 0]],
+    );
+    assertEquals(
+      diagnostics.map(({ code, message }) => [code, message]),
+      [
+        ["invalid-array-size", 'Unable to read the array size [M] of "scale"'],
+        [
+          "invalid-array-size",
+          'Unable to read the array size [N] of "offsets"',
+        ],
+        ["invalid-array-size", 'Unable to read the array size [] of "weights"'],
+      ],
+    );
+  },
+);
 
 function assertVariableIs(
   variable: Partial<GLSLVariable>,
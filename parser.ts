@@ -1,5 +1,20 @@
 // Copyright 2021 Hugo Daniel Henriques Oliveira Gomes. All rights reserved.
 // Licensed under the EUPL
+import {
+  createOriginalOffsetLocator,
+  evaluateExpression,
+  parseIntegerLiteral,
+  preprocess,
+} from "./preprocessor.ts";
+import { Token, tokenize } from "./lexer.ts";
+import {
+  GLSLPrecision,
+  GLSLType,
+  isGLSLPrecision,
+  isGLSLType,
+} from "./types.ts";
+export { isGLSLPrecision, isGLSLType };
+export type { GLSLPrecision, GLSLType };
 /**
  * This function returns the list of parsed input/output variables in a shader
  * code string.
@@ -12,93 +27,562 @@
  *
  * It works in three stages:
  *
- * 1. Remove comments from the shader (their contents might interfere w/ parser)
- * 2. Read and remove all blocks content - strings inside "(",")" and inside
- * "{","}" get removed and placed in an array to be used later. Their contents
- * get replaced by their index on the array.
- * 3. On this string read all expressions (these end with ';') and parse the 
- * possible variable declarations in them.
+ * 1. Run the preprocessor on the shader: remove comments (their contents might
+ * interfere w/ parser), evaluate the conditional directives with the `defines`
+ * option and expand the macros.
+ * 2. Split the code into tokens with `tokenize()`. Each token knows its
+ * offset on the code, which is used to locate the declarations.
+ * 3. Split the tokens into statements (these end with ';' or with the body of
+ * a function) and parse the possible variable declarations in them.
  * 
- * A bit of extra work is done between step 2 and 3 to handle structs and
- * their possible usage in Uniform Buffer Objects. 
+ * Each stage goes through the code once. The statements are read in the
+ * order they are on the code, the structs and constants read are used by the
+ * declarations after them (i.e. in Uniform Buffer Objects and array sizes).
  * 
+ * When the `recover` option is set the malformed declarations are skipped
+ * instead of throwing an exception. In this case an object is returned with
+ * the `variables` that could be read and the `diagnostics` that describe what
+ * was skipped (and where it is on the code).
+ *
  * @param code the string with the GLSL shader code to analyze and parse
+ * @param options the optional settings to use while parsing
  */
-export function parse(code: string) {
-  // All code blocks will be removed from the input "code" string
-  // and their contents will be placed on this "blocks" array.
-  // i.e.
-  // "main() {outColor = texture(u_texture, v_texcoord); }" becomes:
-  // "main() {0}"
-  //
-  // The number inside the block is the index of the "blocks" array where
-  // the content was placed at. This means that "blocks[0]" will have
-  // "outColor = texture(u_texture, v_texcoord); " as its content.
-  const blocks: string[] = [];
-  // The code string is placed in the "shaderCode" variable after removing all
-  // macros this is useful because the macros content interferes with the way
-  // that expressions are being read (by string splitting on ';').
-  let shaderCode = code.split("\n").filter((line) =>
-    !line.trim().startsWith("#")
-  ).join("\n");
-  // clear the content of comments, there is no need to process
-  // them and their contents might interfere with the rest of the parser
-  // (e.g. a comment can have code inside - that code should always be ignored)
-  shaderCode = replaceBlocks(shaderCode, "//", "\n");
-  shaderCode = shaderCode.split("//").join("");
-  shaderCode = replaceBlocks(shaderCode, "/*", "*/");
-  shaderCode = shaderCode.split("/**/").join("");
-  // match the content inside { } and place it in the blocks array.
-  shaderCode = replaceBlocks(
-    shaderCode,
-    "{",
-    "}",
-    // `Array.push()` returns the new length, in this operation the "match"
-    // string content is being put in the "blocks" array, while the new length
-    // is being transformed into a string to replace the previous content inside
-    // the "{" "}" block; this new code string is returned by `replaceBlocks()`
-    (match) => String(blocks.push(match) - 1),
+export function parse(
+  code: string,
+  options?: ParseOptions & { recover?: false },
+): GLSLVariable[];
+export function parse(
+  code: string,
+  options: ParseOptions & { recover: true },
+): ParseResult;
+export function parse(
+  code: string,
+  options: ParseOptions = {},
+): GLSLVariable[] | ParseResult {
+  const { declarations, tokens, source } = readDeclarations(code, options);
+  // The variables are taken from the declarations, the structs are placed
+  // after them. The structs declared inline, i.e.
+  // `uniform struct Light { ... } u_light;`, are declared as their own struct
+  // declaration (anonymous structs can't be used by other variables).
+  const variables: GLSLVariable[] = [];
+  const structs = new Map<string, GLSLVariable>();
+  for (const declaration of declarations) {
+    if (declaration.kind === "variable" || declaration.kind === "block") {
+      variables.push(declaration.variable);
+    } else if (declaration.kind === "struct") {
+      const { name } = declaration.variable;
+      if (name && !structs.has(name)) structs.set(name, declaration.variable);
+    }
+  }
+  const allVariables = variables.concat(
+    [...structs.values()],
+    readImplicitOutputs(tokens, source),
   );
-  // Get the content inside parenthesis ( ) and place it in the blocks array.
-  // This has the same logic as the "{" "}" above. The whatever is between ( )
-  // gets replaced by the index that it was placed in the "blocks" string array.
-  shaderCode = replaceBlocks(
-    shaderCode,
-    "(",
-    ")",
-    (match) => String(blocks.push(match) - 1),
+  if (source.resolveStructs) {
+    resolveStructTypes(allVariables);
+  }
+  return source.recover
+    ? { variables: allVariables, diagnostics: source.diagnostics }
+    : allVariables;
+}
+
+/**
+ * This function returns the top-level declarations of a shader code string,
+ * in the order they are on the code: the variables, structs and uniform
+ * blocks (as their `GLSLVariable`), the precision statements, the functions
+ * and the preprocessor directives. Each one has its range on the code.
+ *
+ * The declarations are read like `parse()` reads them (it takes the same
+ * options). The declarations on the inactive conditional groups (i.e.
+ * `#if 0`) are not read, but their directives are listed. Use
+ * `walkDeclarations()` to visit them by kind.
+ *
+ * @param code the string with the GLSL shader code to analyze and parse
+ * @param options the optional settings to use while parsing
+ */
+export function parseDeclarations(
+  code: string,
+  options?: ParseOptions & { recover?: false },
+): GLSLDeclaration[];
+export function parseDeclarations(
+  code: string,
+  options: ParseOptions & { recover: true },
+): DeclarationsResult;
+export function parseDeclarations(
+  code: string,
+  options: ParseOptions = {},
+): GLSLDeclaration[] | DeclarationsResult {
+  const { declarations, source } = readDeclarations(code, options, true);
+  if (source.resolveStructs) {
+    resolveStructTypes(
+      declarations.flatMap((d) => "variable" in d ? [d.variable] : []),
+    );
+  }
+  return source.recover
+    ? { declarations, diagnostics: source.diagnostics }
+    : declarations;
+}
+
+/**
+ * This function returns the function prototypes and definitions of a shader
+ * code string, in the order they are on the code. Each one has its return
+ * type, its name, its parameters (with their `in`, `out` or `inout`
+ * qualifier, precision, array sizes and struct type) and if it has a body.
+ *
+ * The other declarations are read like `parseDeclarations()` reads them, but
+ * their problems are ignored (i.e. a struct used by a variable that is
+ * declared on another shader code string).
+ *
+ * @param code the string with the GLSL shader code to analyze and parse
+ * @param options the macros defined before the code, the GLSL version and the
+ * shader stage (as they are set on `parse()`)
+ */
+export function parseFunctions(
+  code: string,
+  { defines, version, stage }: ParseOptions = {},
+): FunctionDeclaration[] {
+  const { declarations } = parseDeclarations(
+    code,
+    { defines, version, stage, recover: true },
   );
-  // Pass through the shader code and read all expressions that declare a
-  // "struct". These variables are placed on the "structs" array, and are used
-  // to get the new types to be considered when reading the code for shaders
-  // inputs and outputs. A shader variable can be any of the common GLSL types
-  // like int, float, vec3, vec4, etc... but also can be declared to be a
-  // previously defined struct. On this pass all structs are read and parsed.
-  const structs = readExpressions(
-    shaderCode,
-    { blocks, expressionFilter: expressionStructsFilter },
+  return declarations.filter((d): d is FunctionDeclaration =>
+    d.kind === "function"
   );
-  // Go through the structs found and return their name. This list of names is
-  // then used to consider the possible types a variable can have.
-  const extraTypes = structs.map((s) => s.name).filter((s) =>
-    typeof s === "string"
-  ) as string[];
-  // The final pass is to read all expressions and look for variables on the
-  // code. The `shaderCode` string at this stage is very different from the
-  // original:
-  // - it has no comments and no macros
-  // - it has all blocks replaced by {number}
-  // - it has all parenthesis contents replaced by (number)
-  return (readExpressions(shaderCode, { blocks, extraTypes }).concat(structs))
-    .map(
-      // `readExpressions()` returns an array of Partial variables. This final
-      // step goes through all of the parsed Partial variables and transforms
-      // them into the expected `GLSLVariable` interface. This works as the
-      // final validation on the values being returned.
-      // `fromPartialToFullVariable()` throws an exception if a Partial
-      // GLSLVariable does not have the necessary attributes.
-      fromPartialToFullVariable,
-    );
+}
+
+/**
+ * Reads the top-level declarations of the `code`, this is where the work of
+ * `parse()` and `parseDeclarations()` is done. It also returns the tokens of
+ * the preprocessed code and the reading context (with the diagnostics found).
+ *
+ * The global variables without a storage qualifier and the `invariant`
+ * redeclarations are only read when `includeGlobals` is set (`parse()` lists
+ * the inputs, outputs and uniforms only).
+ */
+function readDeclarations(
+  code: string,
+  {
+    recover = false,
+    defines = {},
+    version,
+    stage,
+    resolveStructs = false,
+  }: ParseOptions,
+  includeGlobals = false,
+): { declarations: GLSLDeclaration[]; tokens: Token[]; source: SourceContext } {
+  // Run the preprocessor, the code it returns has no comments and no
+  // directives; its macros are expanded and the inactive #if groups removed.
+  const preprocessed = preprocess(code, { defines });
+  // The GLSL version is read from the #version directive if it is not set
+  // explicitly. Any version other than 100 is read as GLSL ES 3.00.
+  const shaderVersion: GLSLVersion = (version || preprocessed.version) === 100
+    ? 100
+    : 300;
+  const positionAt = createPositionLocator(code);
+  const diagnostics: GLSLDiagnostic[] = preprocessed.errors.map((error) => ({
+    severity: "error",
+    code: error.code,
+    message: error.message,
+    range: {
+      start: positionAt(error.offset),
+      end: positionAt(error.offset + error.length),
+    },
+  }));
+  if (!recover && diagnostics.length > 0) {
+    throw new Error(diagnostics[0].message);
+  }
+  // The preprocessed code is split into tokens (identifiers, keywords,
+  // numbers and punctuation), each one with its offset on the code. The
+  // declarations are read from these tokens, i.e.
+  // "uniform vec2 u_offsets[ 2 ];" is read as the tokens "uniform", "vec2",
+  // "u_offsets", "[", "2", "]" and ";".
+  const tokens = tokenize(preprocessed.code);
+  // Offsets on the preprocessed code go through the macro expansions to be
+  // found on the original code.
+  const originalOffset = createOriginalOffsetLocator(preprocessed.edits);
+  const shaderStage = stage || detectStage(preprocessed.code);
+  // The shared reading context: the way to translate offsets into line/column
+  // positions of the original code, and the state set by the statements read.
+  const source: SourceContext = {
+    positionAt: (offset) => positionAt(originalOffset(offset)),
+    recover,
+    diagnostics,
+    resolveStructs,
+    version: shaderVersion,
+    stage: shaderStage,
+    defaultBlockLayout: {},
+    defaultPrecision: stageDefaultPrecision(shaderStage),
+    constants: new Map(),
+  };
+  // The names of the structs declared on the shader. These are the extra types
+  // to be considered when reading the code for variables. A shader variable
+  // can be any of the common GLSL types like int, float, vec3, vec4, etc...
+  // but also can be declared to be a previously defined struct. The names are
+  // added as the structs are read.
+  const extraTypes = new Set<string>();
+  const declarations: (GLSLDeclaration | PartialDeclaration)[] = [];
+  // The statements are read in a single pass, in the order they are on the
+  // code. GLSL requires the constants and the structs to be declared before
+  // they are used, as they are read the declarations after them can use them
+  // (and the same goes for the precision and default layout statements).
+  const statements = splitStatements(tokens).flatMap((statement) =>
+    splitMissingSemicolon(statement, source)
+  );
+  for (const statement of statements) {
+    const words = wordsOf(statement.tokens);
+    const range = {
+      start: source.positionAt(statement.start),
+      end: source.positionAt(statement.end),
+    };
+    if (isPrecisionStatement(words)) {
+      // Statements like `precision highp float;` are not variables, they set
+      // the default precision of the type for the declarations after them.
+      const [, precision, type] = words as [string, GLSLPrecision, string];
+      source.defaultPrecision = {
+        ...source.defaultPrecision,
+        [type]: precision,
+      };
+      declarations.push({ kind: "precision", precision, type, range });
+    } else if (isFunctionStatement(statement.tokens)) {
+      declarations.push(readFunction(statement.tokens, range, source));
+    } else if (expressionDeclarationsFilter(words)) {
+      declarations.push(
+        ...readVariableDeclarations(statement.tokens, { source, extraTypes }),
+      );
+    } else if (includeGlobals && isInvariantStatement(words)) {
+      // Statements like `invariant gl_Position;` redeclare a variable
+      const variable = readInvariantVariable(words[1], declarations, source);
+      if (variable) {
+        const partial = { ...variable, range };
+        declarations.push({ kind: "variable", partial });
+      }
+    } else if (includeGlobals && expressionGlobalsFilter(words, extraTypes)) {
+      declarations.push(
+        ...readGlobalDeclarations(statement.tokens, { source, extraTypes }),
+      );
+    }
+  }
+  // The variables are validated once all the statements are read (the
+  // problems found while reading them come first on the diagnostics).
+  const validDeclarations = declarations.flatMap((d): GLSLDeclaration[] => {
+    if (!("partial" in d)) return [d];
+    // `fromPartialToFullVariable()` throws an exception if a Partial
+    // GLSLVariable does not have the necessary attributes (or returns null
+    // when recovering from errors).
+    const variable = fromPartialToFullVariable(d.partial, source);
+    return variable ? [{ kind: d.kind, variable, range: variable.range }] : [];
+  });
+  // The directives are not on the preprocessed code, they are placed among
+  // the declarations by their position on the original code.
+  const directives: GLSLDeclaration[] = preprocessed.directives.map((
+    { name, content, offset, length },
+  ) => ({
+    kind: "directive",
+    name,
+    content,
+    range: { start: positionAt(offset), end: positionAt(offset + length) },
+  }));
+  return {
+    declarations: validDeclarations.concat(directives).sort((a, b) =>
+      a.range.start.offset - b.range.start.offset
+    ),
+    tokens,
+    source,
+  };
+}
+
+/**
+ * Reads the declarations of a statement that declares variables, structs or
+ * uniform blocks. The statements that declare more than one variable have a
+ * declaration for each one of them; a struct declared inline, i.e.
+ * `uniform struct Light { ... } u_light;`, gets its own struct declaration
+ * before the variables that use it.
+ *
+ * The variables of the declarations returned are not validated yet.
+ */
+function readVariableDeclarations(
+  tokens: Token[],
+  {
+    source,
+    extraTypes,
+    expressionFilter = expressionDeclarationsFilter,
+  }: {
+    source: SourceContext;
+    extraTypes: Set<string>;
+    expressionFilter?: (words: string[]) => boolean;
+  },
+): PartialDeclaration[] {
+  const declarations: PartialDeclaration[] = [];
+  readExpressions(
+    tokens,
+    { source, extraTypes, expressionFilter },
+  ).forEach((partial, i) => {
+    // The struct declared inline is the same on all the declarators (the
+    // anonymous ones are only available on the `struct` of the variables)
+    if (i === 0 && partial.struct?.name) {
+      declarations.push({ kind: "struct", partial: partial.struct });
+    }
+    const kind = partial.qualifier === "struct"
+      ? "struct"
+      : partial.type === "block"
+      ? "block"
+      : "variable";
+    declarations.push({ kind, partial });
+  });
+  return declarations;
+}
+
+/**
+ * Reads the declarations of a statement that declares global variables
+ * without a storage qualifier, i.e. `highp vec3 g_color = vec3(1.0);`. Their
+ * qualifier is set to "global".
+ */
+function readGlobalDeclarations(
+  tokens: Token[],
+  { source, extraTypes }: { source: SourceContext; extraTypes: Set<string> },
+): PartialDeclaration[] {
+  const declarations = readVariableDeclarations(tokens, {
+    source,
+    extraTypes,
+    expressionFilter: (words) => expressionGlobalsFilter(words, extraTypes),
+  });
+  for (const { partial } of declarations) {
+    if (!partial.qualifier) partial.qualifier = "global";
+  }
+  return declarations;
+}
+
+/**
+ * Reads the variable of an `invariant` redeclaration, i.e.
+ * `invariant gl_Position;` or `invariant v_color;`. It is a copy of the
+ * variable declared before with the same `name` (or of the built-in variable)
+ * set as invariant. Returns null if there is no variable with that name.
+ *
+ * The `declarations` are the ones read so far, the last one with the name is
+ * the one redeclared.
+ */
+function readInvariantVariable(
+  name: string,
+  declarations: (GLSLDeclaration | PartialDeclaration)[],
+  source: SourceContext,
+): Partial<GLSLVariable> | null {
+  const builtIn = invariantBuiltIns[name];
+  if (builtIn) {
+    return {
+      ...createPartialVariable(),
+      qualifier: builtIn.qualifier,
+      type: builtIn.type,
+      name,
+      isInvariant: true,
+      effectivePrecision: builtIn.precision,
+      version: source.version,
+    };
+  }
+  for (let i = declarations.length - 1; i >= 0; i--) {
+    const declaration = declarations[i];
+    if (
+      "partial" in declaration && declaration.kind === "variable" &&
+      declaration.partial.name === name
+    ) {
+      return { ...declaration.partial, isInvariant: true };
+    }
+  }
+  return null;
+}
+
+/**
+ * The built-in variables that can be redeclared as `invariant`: the vertex
+ * shader outputs and the fragment shader inputs, with their type and the
+ * precision they are declared with by the spec.
+ */
+const invariantBuiltIns: Record<
+  string,
+  { qualifier: Qualifier; type: GLSLType; precision: GLSLPrecision }
+> = {
+  gl_Position: { qualifier: "out", type: "vec4", precision: "highp" },
+  gl_PointSize: { qualifier: "out", type: "float", precision: "highp" },
+  gl_FragCoord: { qualifier: "in", type: "vec4", precision: "mediump" },
+  gl_PointCoord: { qualifier: "in", type: "vec2", precision: "mediump" },
+};
+
+/**
+ * A variable, struct or block declaration with the Partial variable read from
+ * its statement, before it is validated.
+ */
+interface PartialDeclaration {
+  kind: VariableDeclaration["kind"];
+  partial: Partial<GLSLVariable>;
+}
+
+/**
+ * The options that can be passed to the `parse()` function.
+ */
+export interface ParseOptions {
+  // Skip the malformed declarations instead of throwing an exception. When
+  // set, `parse()` returns a `ParseResult` with the diagnostics found.
+  recover?: boolean;
+  // The macros to consider as defined before the shader code starts, with
+  // their replacement values. i.e. `{ MAX_BONES: 64, USE_SKINNING: 1 }`
+  defines?: Record<string, string | number>;
+  // The GLSL version of the shader code. By default it is read from the
+  // `#version` directive (a shader without it is a GLSL ES 1.00 shader).
+  version?: GLSLVersion;
+  // The stage of the shader code. It is only needed for GLSL ES 1.00 shaders,
+  // where "varying" variables are outputs on the vertex shader and inputs on
+  // the fragment shader. By default it is guessed from the code.
+  stage?: ShaderStage;
+  // Set the `struct` attribute of the variables that use a struct (block
+  // members and struct members included) to the declaration of their struct.
+  // The variables that use a struct that is not declared are reported.
+  resolveStructs?: boolean;
+}
+
+/**
+ * The supported GLSL versions: GLSL ES 1.00 (WebGL 1) and GLSL ES 3.00
+ * (WebGL 2).
+ */
+export type GLSLVersion = 100 | 300;
+
+/**
+ * The programmable stages a shader code can be written for.
+ */
+export type ShaderStage = "vertex" | "fragment";
+
+/**
+ * The result of `parse()` when it is recovering from errors.
+ */
+export interface ParseResult {
+  // All the variables that were successfully read
+  variables: GLSLVariable[];
+  // The problems found while reading the code (in the order they were found)
+  diagnostics: GLSLDiagnostic[];
+}
+
+/**
+ * The result of `parseDeclarations()` when it is recovering from errors.
+ */
+export interface DeclarationsResult {
+  // The declarations that were successfully read
+  declarations: GLSLDeclaration[];
+  // The problems found while reading the code (in the order they were found)
+  diagnostics: GLSLDiagnostic[];
+}
+
+/**
+ * A top-level declaration of the shader code, as returned by
+ * `parseDeclarations()`. The `kind` attribute tells which one it is.
+ */
+export type GLSLDeclaration =
+  | VariableDeclaration
+  | PrecisionDeclaration
+  | FunctionDeclaration
+  | DirectiveDeclaration;
+
+/**
+ * The declaration of a variable (i.e. `uniform vec4 u_color;`), a struct
+ * (i.e. `struct Light { ... };`) or a uniform block (i.e.
+ * `uniform Lights { ... } u_lights;`). The statements that declare more than
+ * one variable have a declaration for each one of them.
+ */
+export interface VariableDeclaration {
+  kind: "variable" | "struct" | "block";
+  // The variable as it is returned by `parse()`
+  variable: GLSLVariable;
+  range: SourceRange;
+}
+
+/**
+ * A default precision statement, i.e. `precision highp float;`
+ */
+export interface PrecisionDeclaration {
+  kind: "precision";
+  precision: GLSLPrecision;
+  // The type that gets the default precision, i.e. "float" or "sampler2D"
+  type: string;
+  range: SourceRange;
+}
+
+/**
+ * A function prototype (i.e. `vec4 shade(vec4 color);`) or definition (with
+ * its body, i.e. `void main() { ... }`).
+ */
+export interface FunctionDeclaration {
+  kind: "function";
+  name: string;
+  // The returned type, i.e. "vec4" or "void". It is "struct" when a struct is
+  // returned, the name of the struct is on the `returnStructName`.
+  returnType: GLSLType | "void" | "struct";
+  returnStructName: string | null;
+  // The precision modifier of the returned type, i.e. `highp vec4 f()`
+  returnPrecision: GLSLPrecision | null;
+  // The array sizes of the returned type, i.e. [2] for `float[2] weights()`
+  // (empty when it does not return an array). The sizes that can't be read
+  // are 0, like on the `dimensions` of the parameters.
+  returnDimensions: number[];
+  // The parameters in the order they are declared (`f()` and `f(void)` have
+  // none)
+  parameters: FunctionParameter[];
+  // True if it is a definition, false if it is only a prototype
+  hasBody: boolean;
+  // The names used on the body (empty for prototypes): the variables and the
+  // functions called, without repetitions. The fields accessed on a variable
+  // are listed with its name, i.e. "u_light.color" for `u_light.color.rgb` or
+  // `u_light[2].color` (and "u_light" is listed too).
+  references: string[];
+  // It goes up to the "}" of the body (or up to the ';' of a prototype)
+  range: SourceRange;
+}
+
+/**
+ * A parameter of a function declaration, i.e. `inout highp vec3 colors[2]`
+ */
+export interface FunctionParameter {
+  // The parameter name, or null if it is not named (prototypes don't need to
+  // name their parameters, i.e. `float sum(float, float);`)
+  name: string | null;
+  // The direction of the parameter, "in" when it is not set
+  qualifier: "in" | "out" | "inout";
+  // True for the `const` parameters (they can't be written to)
+  isConst: boolean;
+  // The type of the parameter. It is "struct" when it is a struct, the name
+  // of the struct is on the `structName`.
+  type: GLSLType | "struct";
+  structName: string | null;
+  precision: GLSLPrecision | null;
+  // The size of each dimension of an array parameter (empty if it is not an
+  // array), and the total number of its elements (1 if it is not an array).
+  // The sizes that can't be read are 0 (and an error diagnostic is reported).
+  dimensions: number[];
+  amount: number;
+}
+
+/**
+ * A preprocessor directive, i.e. `#define PI 3.14`
+ */
+export interface DirectiveDeclaration {
+  kind: "directive";
+  // The directive name, i.e. "define" (empty for a line with only "#")
+  name: string;
+  // The text after the name, i.e. "PI 3.14"
+  content: string;
+  range: SourceRange;
+}
+
+/**
+ * A problem found on the shader code. These are produced instead of exceptions
+ * when the parser is recovering from errors.
+ */
+export interface GLSLDiagnostic {
+  severity: "error" | "warning" | "info";
+  // A short identifier for the kind of problem, i.e. "invalid-declaration"
+  code: string;
+  // A human readable description of the problem
+  message: string;
+  // The place on the original code string where the problem is
+  range: SourceRange;
+  // The shader stage whose code has the `range`. Only set on the diagnostics
+  // that involve more than one shader (i.e. when linking a program).
+  stage?: ShaderStage;
 }
 
 /**
@@ -111,22 +595,43 @@ export function parse(code: string) {
 export interface GLSLVariable {
   // The "struct" qualifier is used when declaring a struct; in which case the
   // type will be "block" and the variables present on the struct present on
-  // the "block" array
-  qualifier: Qualifier | "struct";
+  // the "block" array. The "global" qualifier is used by the global variables
+  // declared without a storage qualifier, i.e. `float g_time;` (these are only
+  // listed by `parseDeclarations()`)
+  qualifier: Qualifier | "struct" | "global";
   // The type of this variable. It is "struct" when the variable is using a
   // struct, in which case the name of the struct being used is passed on the
   // attribute "structName".
   type: GLSLType | "block" | "struct";
   name: string;
   // Amount is always 1 except for the cases where this variable is an array.
-  // If this variable is an array `amount` contains the size of it.
-  // i.e. for `float values[3];` amount will be 3.
+  // If this variable is an array `amount` contains the total number of its
+  // elements. i.e. for `float values[3];` amount will be 3, and for
+  // `mat4 cascades[4][2];` it will be 8. The size can be a constant
+  // expression that uses integer literals and the constants declared before,
+  // i.e. `vec4 lights[MAX_LIGHTS * 2];`.
   amount: number;
+  // The size of each dimension of an array, or an empty array if the variable
+  // is not an array. i.e. `mat4 cascades[4][2];` has the dimensions [4, 2].
+  // The sizes set on the type come after the sizes set on the name, i.e.
+  // `float[3] values[2];` (2 arrays of 3 floats) has the dimensions [2, 3].
+  dimensions: number[];
+  // True if the array has a dimension without size, i.e. `float data[];`
+  // The dimensions without size are 0.
+  isUnsizedArray: boolean;
+  // The value of a constant (a variable with the "const" qualifier) whose
+  // initializer is an integer constant expression, i.e. 8 for
+  // `const int SIZE = 0x4 * 2;`. It is null for the other variables.
+  value: number | null;
   // Invariant and Centroid are special variable attributes that GLSL allows
   // It is important to consider them because they can have special IO
   // considerations
   isInvariant: boolean;
   isCentroid: boolean;
+  // The interpolation qualifier ("flat" or "smooth") of the shader inputs and
+  // outputs, or null if the declaration does not have one (which means that
+  // it is "smooth").
+  interpolation: Interpolation | null;
   // If a variable has the layout defined this attribute will contain the
   // string used to set the layout
   // i.e. `layout(location=1) in vec2 texcoord;` will make layout have the
@@ -134,19 +639,104 @@ export interface GLSLVariable {
   // something like "layout( location = 3 )" will be placed here as
   // "location=3".
   layout: string | null;
+  // The qualifiers of the layout, read into their own attributes. Uniform
+  // blocks also get the packing and matrix order set by a previous default
+  // layout statement (i.e. `layout(std140) uniform;`) if they don't set them.
+  layoutQualifiers: LayoutQualifiers;
   // The precision modifier present on the variable declaration. This is not
   // the precision set at the shader or block level. This is the precision
   // modifier for a single variable declaration. Can be null if none is found.
   precision: GLSLPrecision | null;
+  // The precision that applies to this variable: its `precision` modifier or,
+  // if it has none, the default precision of its type set by the
+  // `precision highp float;` statements found before its declaration (or the
+  // default precision of the shader stage). It is null for the types that
+  // have no precision (booleans, structs and blocks) and for floats on
+  // fragment shaders that don't set their default precision.
+  effectivePrecision: GLSLPrecision | null;
   // If this variable is declaring a block (uniform buffer objects, or structs),
   // then all the variables found inside the block will be available in this
   // array.
   block: GLSLVariable[] | null;
+  // The instance name of a uniform block, or null if the block has none.
+  // i.e. for `uniform PerScene { ... } u_perScene;` the `name` is "PerScene"
+  // (the block name, used by `getUniformBlockIndex`) and the `instanceName`
+  // is "u_perScene". When the instance is an array, i.e. `} u_lights[4];`,
+  // the `dimensions` and `amount` have its size.
+  instanceName: string | null;
   // If this variable uses a struct the `structName` will contain the name of
   // the struct being used. This is useful to allow the struct attributes to be
   // found by searching for the struct with this name on the array of all
   // `GLSLVariable`'s that is returned by `parse()`.
   structName: string | null;
+  // The declaration of the struct used by this variable (its members are on
+  // its `block` array, with their own structs resolved). It is set when the
+  // struct is declared inline (i.e. `uniform struct Light { ... } u_light;`,
+  // where the struct can also be anonymous) or when `parse()` is called with
+  // the `resolveStructs` option, otherwise it is null.
+  struct: GLSLVariable | null;
+  // The GLSL version of the shader where this variable was declared. On
+  // GLSL ES 1.00 (100) shaders the "attribute" variables are read as "in"
+  // variables and the "varying" variables as "out" on the vertex shader and
+  // "in" on the fragment shader.
+  version: GLSLVersion;
+  // The place in the original shader code where this variable is declared.
+  // A statement that declares a single variable is its range, from its first
+  // char (i.e. the qualifier or the layout) up to (and excluding) the ';'.
+  // On a statement that declares more than one variable, like
+  // `const float a = 1.0, b[2] = float[2](a, a);`, each variable has the
+  // range of its own declarator: its name, array sizes and initializer (i.e.
+  // `b[2] = float[2](a, a)`).
+  // The same goes for the variables inside blocks, on their own declaration
+  // inside the block.
+  range: SourceRange;
+}
+
+/**
+ * The qualifiers that can be set with `layout()` on a variable declaration.
+ * Each attribute is null when the qualifier is not set.
+ */
+export interface LayoutQualifiers {
+  // i.e. `layout(location = 2) in vec3 normal;`
+  location: number | null;
+  binding: number | null;
+  offset: number | null;
+  // The uniform block packing (when not set, blocks are "shared" by default)
+  packing: "std140" | "shared" | "packed" | null;
+  // The matrix order of uniform blocks and their members (when not set,
+  // matrices are "column_major" by default)
+  matrixOrder: "row_major" | "column_major" | null;
+  // All the other qualifiers, with their values (`true` if they have none)
+  other: Record<string, string | true>;
+}
+
+/**
+ * The packing and the matrix order that apply to a uniform block (or to one
+ * of its members), as returned by `effectiveBlockLayout()`.
+ */
+export interface BlockLayout {
+  packing: NonNullable<LayoutQualifiers["packing"]>;
+  matrixOrder: NonNullable<LayoutQualifiers["matrixOrder"]>;
+}
+
+/**
+ * A position on the original shader code string. Lines and columns start at 1
+ * (like the GLSL compiler messages), the offset is the 0 based index of the
+ * char on the code string.
+ */
+export interface SourcePosition {
+  line: number;
+  column: number;
+  offset: number;
+}
+
+/**
+ * A span of the original shader code string. The `end` position is exclusive,
+ * it is the position right after the last char of the span.
+ */
+export interface SourceRange {
+  start: SourcePosition;
+  end: SourcePosition;
 }
 
 /**
@@ -161,8 +751,10 @@ function isGLSLVariable(value: unknown): value is GLSLVariable {
     value !== null &&
     // it has got to have the "qualifier" attribute defined
     "qualifier" in value &&
-    // and it has to be either a valid Qualifier type or the "struct" string
+    // and it has to be either a valid Qualifier type or the "struct" or
+    // "global" strings
     ((value as GLSLVariable).qualifier === "struct" ||
+      (value as GLSLVariable).qualifier === "global" ||
       isQualifier((value as GLSLVariable).qualifier)) &&
     // it has got to have the "type" attribute defined
     "type" in value &&
@@ -179,6 +771,11 @@ function isGLSLVariable(value: unknown): value is GLSLVariable {
     "amount" in value &&
     typeof (value as GLSLVariable).amount === "number" &&
     !isNaN((value as GLSLVariable).amount) &&
+    // the "dimensions" attribute must be an array of numbers
+    Array.isArray((value as GLSLVariable).dimensions) &&
+    (value as GLSLVariable).dimensions.every((size) => !isNaN(size)) &&
+    // the "isUnsizedArray" attribute must be a boolean
+    typeof (value as GLSLVariable).isUnsizedArray === "boolean" &&
     // the "isVariant" attribute must defined with the type "boolean"
     "isInvariant" in value &&
     typeof (value as GLSLVariable).isInvariant === "boolean" &&
@@ -189,21 +786,54 @@ function isGLSLVariable(value: unknown): value is GLSLVariable {
     "layout" in value &&
     ((value as GLSLVariable).layout === null ||
       typeof (value as GLSLVariable).layout === "string") &&
+    // the "layoutQualifiers" attribute must be defined with an object
+    "layoutQualifiers" in value &&
+    typeof (value as GLSLVariable).layoutQualifiers === "object" &&
     // the "precision" attribute must defined and be either null or a valid
     // precision string
     "precision" in value &&
     ((value as GLSLVariable).precision === null ||
-      isGLSLPrecision((value as GLSLVariable).precision as string))
+      isGLSLPrecision((value as GLSLVariable).precision as string)) &&
+    // the "effectivePrecision" attribute must be defined and be either null
+    // or a valid precision string
+    "effectivePrecision" in value &&
+    ((value as GLSLVariable).effectivePrecision === null ||
+      isGLSLPrecision((value as GLSLVariable).effectivePrecision as string)) &&
+    // the "interpolation" attribute must be defined and be either null or a
+    // valid interpolation qualifier
+    "interpolation" in value &&
+    ((value as GLSLVariable).interpolation === null ||
+      isInterpolation((value as GLSLVariable).interpolation)) &&
+    // the "version" attribute must be one of the supported GLSL versions
+    "version" in value &&
+    ((value as GLSLVariable).version === 100 ||
+      (value as GLSLVariable).version === 300) &&
+    // the "struct" attribute must be defined and be null or an object
+    "struct" in value &&
+    ((value as GLSLVariable).struct === null ||
+      typeof (value as GLSLVariable).struct === "object") &&
+    // the "value" attribute must be defined and be null or a number
+    "value" in value &&
+    ((value as GLSLVariable).value === null ||
+      typeof (value as GLSLVariable).value === "number") &&
+    // the "instanceName" attribute must be defined and be null or a string
+    "instanceName" in value &&
+    ((value as GLSLVariable).instanceName === null ||
+      typeof (value as GLSLVariable).instanceName === "string") &&
+    // the "range" attribute must be defined with the start and end positions
+    "range" in value &&
+    typeof (value as GLSLVariable).range === "object" &&
+    (value as GLSLVariable).range !== null
   );
 }
 
 /**
- * This function reads the code and returns an array of found GLSLVariables.
+ * This function reads the tokens and returns an array of found GLSLVariables.
  * This is a recursive function, it calls `readVariable()` to create a list of
  * `GLSLVariable`'s. The `readVariable()` function can call `readExpressions()`
- * if a block string needs to be parsed into expressions. Making this a
+ * if the tokens of a block need to be parsed into expressions. Making this a
  * somewhat hidden recursive function.
- * Block strings with useful variable declarations to consider happen when 
+ * Blocks with useful variable declarations to consider happen when
  * declaring `structs` or Uniform Buffer Objects.
  * 
  * In the options argument object an `expressionFilter` can be set. This
@@ -214,54 +844,648 @@ function isGLSLVariable(value: unknown): value is GLSLVariable {
  * or "in" or "out".
  * 
  * This function works with the following outline:
- * 1. split all lines and ignore comments and lines that start with "#"
- * 2. trim all expressions (split by the ';' char) and consider only those that
- * the provided filter allows.
- * 3. for each line that matched the previous point, parse it with the function
- * `readVariable()` - this function gets the list of words of the variable
+ * 1. split the tokens into expressions with `splitStatements()`
+ * 2. consider only the expressions that the provided filter allows.
+ * 3. split the expressions that declare more than one variable (separated by
+ * ",") into an expression for each variable.
+ * 4. for each expression that matched the previous point, parse it with the
+ * function `readVariable()` - this function gets the tokens of the variable
  * declaration and produces a Partial `GLSLVariable` object.
  */
 function readExpressions(
-  code: string,
+  tokens: Token[],
   {
     // By default filter expressions that declare IO variables.
     expressionFilter = expressionShaderIOFilter,
-    // The list of strings on each code block (defined by a matching { })
-    blocks = [],
-    // The list of extra types declared on this shader that should be considered
+    // The original code positions information and the reading state
+    source,
+    // The set of extra types declared on this shader that should be considered
     // a valid type when declaring variables.
-    extraTypes = [],
+    extraTypes = new Set(),
   }: {
     expressionFilter?: (words: string[]) => boolean;
-    blocks?: string[];
-    extraTypes?: string[];
+    source: SourceContext;
+    extraTypes?: Set<string>;
   },
 ) {
   return (
-    code
-      // Split the string into an array of stirng expressions, in GLSL these
-      // end with the ';' char
-      .split(";")
-      // Split each expression into an array of words (this regex matches only
-      // non-whitespace chars - transforming a string into an array of words)
-      .map((expression) => expression.match(/\S+/g) || [])
+    splitStatements(tokens)
       // consider only the expressions that match the provided filter
       // this by default filters expressions that declare variables
-      .filter(expressionFilter)
+      .filter(({ tokens }) => expressionFilter(wordsOf(tokens)))
+      // expressions like `uniform float a, b[2];` declare a variable for each
+      // of their comma separated declarators
+      .flatMap((expression) => splitDeclarators(expression))
       // transform each expression filtered above into a `GLSLVariable` object
-      // this map(readVariable) does `string[][] => GLSLVariable[]`
-      .map((expressionWords: string[]) =>
-        // `readVariable()` is where the words of an expression string are
+      // this map(readVariable) does `Expression[] => GLSLVariable[]`
+      .map(({ tokens, start, end }) => {
+        const words = wordsOf(tokens);
+        // `readVariable()` is where the tokens of an expression are
         // transformed into a GLSLVariable
-        readVariable(expressionWords, { blocks, extraTypes })
+        const variable = readVariable(tokens, { source, extraTypes });
+        // The structs can be used as the type of the declarations after them
+        const struct = variable.qualifier === "struct"
+          ? variable
+          : variable.struct;
+        if (struct?.name) extraTypes.add(struct.name);
+        // The constants can be used by the declarations after them
+        if (
+          variable.qualifier === "const" && variable.name &&
+          typeof variable.value === "number"
+        ) {
+          source.constants.set(variable.name, variable.value);
+        }
+        variable.version = source.version;
+        variable.effectivePrecision = variable.precision ||
+          source.defaultPrecision[precisionType(variable.type)] || null;
+        variable.range = {
+          start: source.positionAt(start),
+          end: source.positionAt(end),
+        };
+        // Variables that use a struct that is not declared can't be resolved
+        if (
+          source.resolveStructs &&
+          variable.type === "struct" && !variable.struct &&
+          !extraTypes.has(variable.structName as string)
+        ) {
+          reportUnknownStruct(variable, source);
+          return null;
+        }
+        // Statements like `layout(std140) uniform;` are not declarations,
+        // they set the default layout of the blocks declared after them.
+        if (isDefaultLayoutStatement(words, variable)) {
+          source.defaultBlockLayout = {
+            ...source.defaultBlockLayout,
+            ...pickBlockDefaults(variable.layoutQualifiers),
+          };
+          return null;
+        }
+        // Uniform blocks get the default layout where they don't set one
+        if (variable.qualifier === "uniform" && variable.type === "block") {
+          variable.layoutQualifiers = applyBlockDefaults(
+            variable.layoutQualifiers,
+            source.defaultBlockLayout,
+          );
+        }
+        return variable;
+      })
+      .filter((variable): variable is Partial<GLSLVariable> =>
+        variable !== null
       )
   );
 }
 
+/**
+ * Splits the tokens into the expressions of each statement. A statement ends
+ * with a ";" that is not inside ( ), [ ] or { }, or with the "}" of a function
+ * body (i.e. `void main() { ... }`). The ";" is not part of the expression and
+ * the empty statements are skipped.
+ */
+function splitStatements(tokens: Token[]): Expression[] {
+  const expressions: Expression[] = [];
+  let current: Token[] = [];
+  // How many brackets are open at the current token
+  let depth = 0;
+  // The index (on the `current` tokens) of the last "{" found outside brackets
+  let braceIndex = -1;
+  const endStatement = () => {
+    if (current.length > 0) {
+      const start = current[0].start;
+      expressions.push({ tokens: current, start, end: lastOf(current).end });
+    }
+    current = [];
+  };
+  for (const token of tokens) {
+    if (token.kind === "preprocessor") continue;
+    if (depth === 0 && token.text === ";") {
+      endStatement();
+      continue;
+    }
+    if (depth === 0 && token.text === "{") braceIndex = current.length;
+    current.push(token);
+    depth = Math.max(depth + depthChange(token), 0);
+    // A function body is the "{ }" that comes after the parameters ")"
+    if (
+      depth === 0 && token.text === "}" && current[braceIndex - 1]?.text === ")"
+    ) {
+      endStatement();
+    }
+  }
+  endStatement();
+  return expressions;
+}
+
+/**
+ * Splits a function statement that has a declaration before its return type,
+ * i.e. `in vec2 uv void main() {...}` (the declaration is missing its ";"),
+ * into the declaration and the function statements. The missing ";" is
+ * reported.
+ */
+function splitMissingSemicolon(
+  statement: Expression,
+  source: SourceContext,
+): Expression[] {
+  const { tokens } = statement;
+  if (!isFunctionStatement(tokens)) return [statement];
+  // The function starts at its return type (or at its precision)
+  let start = returnTypeIndex(tokens);
+  if (start > 0 && isGLSLPrecision(tokens[start - 1].text)) start--;
+  if (start === 0) return [statement];
+  const declaration = tokens.slice(0, start);
+  reportSyntaxError(
+    "missing-semicolon",
+    `Missing a ";" after "${wordsOf(declaration).join(" ")}"`,
+    lastOf(declaration),
+    source,
+  );
+  return [
+    {
+      tokens: declaration,
+      start: statement.start,
+      end: lastOf(declaration).end,
+    },
+    {
+      tokens: tokens.slice(start),
+      start: tokens[start].start,
+      end: statement.end,
+    },
+  ];
+}
+
+/**
+ * Splits the tokens of an expression that declares more than one variable
+ * (separated by ",") into the tokens of each declaration. Every declaration
+ * gets the tokens that come before the first variable name (the layout,
+ * qualifiers, precision and type), i.e. `uniform float u_a, u_b[2]` becomes
+ * `uniform float u_a` and `uniform float u_b[2]`. Each declaration is located
+ * from its name through its array sizes or initializer (i.e. `u_b[2]`).
+ *
+ * Expressions that declare a block are not split, the block is declared once
+ * (the tokens after it are read as its instance name). Variables that declare
+ * a struct inline (i.e. `uniform struct Light { ... } a, b`) get all the
+ * tokens up to the struct "}".
+ */
+function splitDeclarators(expression: Expression): Expression[] {
+  const { tokens } = expression;
+  const openIndex = tokens.findIndex((t) => t.text === "{");
+  // The tokens shared by all declarators, and the tokens of each one of them
+  let shared: Token[];
+  let declarators: Token[][];
+  if (openIndex >= 0) {
+    if (!declaresInlineStruct(wordsOf(tokens))) return [expression];
+    shared = tokens.slice(0, closingIndex(tokens, openIndex) + 1);
+    declarators = splitOutsideBrackets(tokens.slice(shared.length), ",");
+  } else {
+    const [first, ...others] = splitOutsideBrackets(tokens, ",");
+    // Remove the name of the first declarator (and its array sizes and its
+    // initializer, if any) to get the tokens that are shared by all of them
+    const [declaration] = splitOutsideBrackets(first, "=");
+    let end = declaration.length;
+    while (end > 0 && declaration[end - 1].text === "]") {
+      end = openingIndex(declaration, end - 1);
+    }
+    shared = declaration.slice(0, Math.max(end - 1, 0));
+    declarators = [first.slice(shared.length)].concat(others);
+  }
+  if (declarators.length === 1) return [expression];
+  return declarators.map((declarator) => ({
+    tokens: shared.concat(declarator),
+    // Empty declarators (i.e. `float a, ;`) are located on the whole statement
+    start: declarator.length > 0 ? declarator[0].start : expression.start,
+    end: declarator.length > 0 ? lastOf(declarator).end : expression.end,
+  }));
+}
+
+/**
+ * Splits the `tokens` on each `separator` token that is not inside ( ), [ ]
+ * or { }, i.e. the commas of a layout are not declarator separators.
+ */
+function splitOutsideBrackets(tokens: Token[], separator: string): Token[][] {
+  const parts: Token[][] = [[]];
+  let depth = 0;
+  for (const token of tokens) {
+    if (token.text === separator && depth === 0) parts.push([]);
+    else lastOf(parts).push(token);
+    depth += depthChange(token);
+  }
+  return parts;
+}
+
+/**
+ * Returns the index of the token that closes the bracket opened at the
+ * `index`, or the index of the last token if it is not closed.
+ */
+function closingIndex(tokens: Token[], index: number): number {
+  let depth = 0;
+  for (let i = index; i < tokens.length; i++) {
+    depth += depthChange(tokens[i]);
+    if (depth === 0) return i;
+  }
+  return tokens.length - 1;
+}
+
+/**
+ * Returns true if the bracket opened at the `index` is closed on the `tokens`.
+ */
+function isClosed(tokens: Token[], index: number): boolean {
+  let depth = 0;
+  for (let i = index; i < tokens.length; i++) {
+    depth += depthChange(tokens[i]);
+    if (depth === 0) return true;
+  }
+  return false;
+}
+
+/**
+ * Returns the index of the token that opens the bracket closed at the
+ * `index`, or 0 if it is not opened.
+ */
+function openingIndex(tokens: Token[], index: number): number {
+  let depth = 0;
+  for (let i = index; i >= 0; i--) {
+    depth -= depthChange(tokens[i]);
+    if (depth === 0) return i;
+  }
+  return 0;
+}
+
+/**
+ * Returns 1 for the tokens that open a bracket ("(", "[" or "{"), -1 for the
+ * ones that close it and 0 for the others.
+ */
+function depthChange(token: Token): number {
+  if (token.text === "(" || token.text === "[" || token.text === "{") return 1;
+  if (token.text === ")" || token.text === "]" || token.text === "}") return -1;
+  return 0;
+}
+
+/**
+ * Returns the text of each token.
+ */
+function wordsOf(tokens: Token[]): string[] {
+  return tokens.map((token) => token.text);
+}
+
+/**
+ * Returns the last item of a list.
+ */
+function lastOf<T>(list: T[]): T {
+  return list[list.length - 1];
+}
+
+/**
+ * A default layout statement has only the layout and the "uniform" qualifier,
+ * i.e. `layout(std140, row_major) uniform;`
+ */
+function isDefaultLayoutStatement(
+  words: string[],
+  variable: Partial<GLSLVariable>,
+): boolean {
+  return variable.qualifier === "uniform" && variable.layout !== null &&
+    !variable.type && words[words.length - 1] === "uniform";
+}
+
+/**
+ * A precision statement sets the default precision of a type, i.e.
+ * `precision highp float;`
+ */
+function isPrecisionStatement(words: string[]): boolean {
+  return words.length === 3 && words[0] === "precision" &&
+    isGLSLPrecision(words[1]);
+}
+
+/**
+ * A function statement has a name followed by its parameters (in "( )")
+ * after the return type and precision, i.e. `highp vec4 shade(vec4 c) {...}`
+ * or `float sum(float a, float b)`. The return type can have array sizes,
+ * i.e. `float[2] weights()`. Other statements have a "(" after a keyword
+ * (i.e. `layout(std140)`) or after an "=" (i.e. `float a = f(b)`).
+ */
+function isFunctionStatement(tokens: Token[]): boolean {
+  const openIndex = tokens.findIndex((t) => t.text === "(");
+  if (openIndex < 2 || tokens[openIndex - 1].kind !== "identifier") {
+    return false;
+  }
+  for (let i = 0; i < openIndex - 1; i++) {
+    if (i > 0 && tokens[i].text === "[") {
+      // The array sizes must end before the function name
+      i = closingIndex(tokens, i);
+      if (i >= openIndex - 1) return false;
+    } else if (
+      tokens[i].kind !== "identifier" && tokens[i].kind !== "keyword"
+    ) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Reads the function declaration of a statement that passes the
+ * `isFunctionStatement()` check. The array sizes of the parameters can use
+ * the constants declared before the function.
+ */
+function readFunction(
+  tokens: Token[],
+  range: SourceRange,
+  source: SourceContext,
+): FunctionDeclaration {
+  const openIndex = tokens.findIndex((t) => t.text === "(");
+  const closeIndex = closingIndex(tokens, openIndex);
+  const typeIndex = returnTypeIndex(tokens);
+  const returnType = tokens[typeIndex].text;
+  const returnPrecision = tokens.slice(0, typeIndex)
+    .find((t) => isGLSLPrecision(t.text))?.text as GLSLPrecision | undefined;
+  // The array sizes of the return type are between the type and the name
+  const returnSizes = readBracketGroups(
+    tokens.slice(typeIndex + 1, openIndex - 1),
+  );
+  let parameters = splitOutsideBrackets(
+    tokens.slice(openIndex + 1, closeIndex),
+    ",",
+  ).filter((parameter) => parameter.length > 0);
+  // `f(void)` is a function without parameters
+  if (parameters.length === 1 && wordsOf(parameters[0]).join() === "void") {
+    parameters = [];
+  }
+  const isStruct = returnType !== "void" && !isGLSLType(returnType);
+  const name = tokens[openIndex - 1].text;
+  return {
+    kind: "function",
+    name,
+    returnType: isStruct ? "struct" : returnType as GLSLType | "void",
+    returnStructName: isStruct ? returnType : null,
+    returnPrecision: returnPrecision || null,
+    returnDimensions: returnSizes.map((size) =>
+      readFunctionArraySize(size, name, tokens[typeIndex], source)
+    ),
+    parameters: parameters.map((parameter) => readParameter(parameter, source)),
+    hasBody: lastOf(tokens).text === "}",
+    references: readReferences(tokens.slice(closeIndex + 1)),
+    range,
+  };
+}
+
+/**
+ * Returns the index of the return type of a function statement, the type is
+ * before the array sizes (if any) that come before the function name.
+ */
+function returnTypeIndex(tokens: Token[]): number {
+  let typeEnd = tokens.findIndex((t) => t.text === "(") - 1;
+  while (tokens[typeEnd - 1].text === "]") {
+    typeEnd = openingIndex(tokens, typeEnd - 1);
+  }
+  return typeEnd - 1;
+}
+
+/**
+ * Returns the names of the identifiers of the `tokens` (of a function body),
+ * without repetitions and in the order they are first used. An identifier
+ * after a "." is a field, it is listed with the name of the variable that is
+ * accessed, i.e. `u_lights[i].color` has the names "u_lights", "i" and
+ * "u_lights.color".
+ */
+function readReferences(tokens: Token[]): string[] {
+  const references = new Set<string>();
+  tokens.forEach((token, i) => {
+    if (token.kind !== "identifier") return;
+    if (tokens[i - 1]?.text !== ".") {
+      references.add(token.text);
+      return;
+    }
+    // Skip the array indices and parenthesis before the "." to find the
+    // variable that has the field
+    let baseIndex = i - 2;
+    while (tokens[baseIndex]?.text === "]" || tokens[baseIndex]?.text === ")") {
+      baseIndex = openingIndex(tokens, baseIndex) - 1;
+    }
+    const base = tokens[baseIndex];
+    if (base?.kind === "identifier" && tokens[baseIndex - 1]?.text !== ".") {
+      references.add(`${base.text}.${token.text}`);
+    }
+  });
+  return [...references];
+}
+
+/**
+ * Reads a function parameter from its tokens, i.e. the tokens of
+ * `const in highp float weights[4]`. A type that is not a GLSL type is read as
+ * the name of a struct (that might be declared on other shader code).
+ */
+function readParameter(
+  tokens: Token[],
+  source: SourceContext,
+): FunctionParameter {
+  const parameter: FunctionParameter = {
+    name: null,
+    qualifier: "in",
+    isConst: false,
+    type: "struct",
+    structName: null,
+    precision: null,
+    dimensions: [],
+    amount: 1,
+  };
+  let typeName = "";
+  // The array sizes set on the type (i.e. `float[2] a`) come after the sizes
+  // set on the name (as they do on the `GLSLVariable` dimensions)
+  const sizes: Token[][] = [];
+  const typeSizes: Token[][] = [];
+  for (let i = 0; i < tokens.length; i++) {
+    const { text } = tokens[i];
+    if (text === "[") {
+      const closeIndex = closingIndex(tokens, i);
+      (parameter.name ? sizes : typeSizes).push(
+        tokens.slice(i + 1, closeIndex),
+      );
+      i = closeIndex;
+    } else if (text === "const") {
+      parameter.isConst = true;
+    } else if (text === "in" || text === "out" || text === "inout") {
+      parameter.qualifier = text;
+    } else if (isGLSLPrecision(text)) {
+      parameter.precision = text;
+    } else if (!typeName) {
+      typeName = text;
+    } else if (!parameter.name) {
+      parameter.name = text;
+    }
+  }
+  if (isGLSLType(typeName)) {
+    parameter.type = typeName;
+  } else {
+    parameter.structName = typeName;
+  }
+  parameter.dimensions = sizes.concat(typeSizes).map((size) =>
+    readFunctionArraySize(size, parameter.name || typeName, tokens[0], source)
+  );
+  parameter.amount = parameter.dimensions.reduce(
+    (total, size) => total * size,
+    1,
+  );
+  return parameter;
+}
+
+/**
+ * Evaluates an array size (the tokens inside the [ ]) of a function parameter
+ * or return type. The sizes that can't be read, or that are not greater than
+ * zero, are reported (on the `at` token when the size is empty) and read as
+ * 0, the size of an unsized array.
+ */
+function readFunctionArraySize(
+  size: Token[],
+  name: string,
+  at: Token,
+  source: SourceContext,
+): number {
+  const expression = wordsOf(size).join(" ");
+  const value = evaluateConstant(expression, source.constants);
+  if (value > 0) return value;
+  reportSyntaxError(
+    "invalid-array-size",
+    `Unable to read the array size [${expression}] of "${name}"`,
+    size[0] || at,
+    source,
+  );
+  return 0;
+}
+
+/**
+ * Returns the type whose default precision applies to a variable of the
+ * given `type`: "float" for the float vectors and matrices, "int" for the
+ * integer types and vectors, and the type itself for the samplers. An empty
+ * string is returned for the types that have no precision.
+ */
+function precisionType(type: string | undefined): string {
+  if (!type) return "";
+  if (type.includes("sampler")) return type;
+  if (/^(float|vec\d|mat\d(x\d)?)$/.test(type)) return "float";
+  if (/^(u?int|[iu]vec\d)$/.test(type)) return "int";
+  return "";
+}
+
+/**
+ * The default precisions that are predeclared on each shader stage (section
+ * 4.5.4 of the GLSL ES 3.00 spec). Fragment shaders have no default
+ * precision for floats.
+ */
+function stageDefaultPrecision(
+  stage: ShaderStage,
+): Record<string, GLSLPrecision> {
+  const samplers: Record<string, GLSLPrecision> = {
+    sampler2D: "lowp",
+    samplerCube: "lowp",
+  };
+  return stage === "vertex"
+    ? { float: "highp", int: "highp", ...samplers }
+    : { int: "mediump", ...samplers };
+}
+
+/**
+ * Returns the block qualifiers (packing and matrix order) that are set on the
+ * `qualifiers`. These are the ones that a default layout statement changes.
+ */
+function pickBlockDefaults(
+  qualifiers: LayoutQualifiers | undefined,
+): Partial<LayoutQualifiers> {
+  const defaults: Partial<LayoutQualifiers> = {};
+  if (qualifiers?.packing) defaults.packing = qualifiers.packing;
+  if (qualifiers?.matrixOrder) defaults.matrixOrder = qualifiers.matrixOrder;
+  return defaults;
+}
+
+/**
+ * Sets the packing and matrix order of the `defaults` on the block layout
+ * qualifiers that don't have them set.
+ */
+function applyBlockDefaults(
+  qualifiers: LayoutQualifiers = parseLayoutQualifiers(null),
+  defaults: Partial<LayoutQualifiers>,
+): LayoutQualifiers {
+  return {
+    ...qualifiers,
+    packing: qualifiers.packing || defaults.packing || null,
+    matrixOrder: qualifiers.matrixOrder || defaults.matrixOrder || null,
+  };
+}
+
+/**
+ * Returns the packing and the matrix order that apply to a uniform block, or
+ * to one of its members. The ones that are not set on its `qualifiers` are
+ * taken from the `outer` layout: the layout of the block (or of the member
+ * that has it) for members, and the GLSL defaults ("shared" and
+ * "column_major") for blocks.
+ *
+ * i.e. `uniform B { ... };` has the same layout as
+ * `layout(shared, column_major) uniform B { ... };`
+ */
+export function effectiveBlockLayout(
+  { packing, matrixOrder }: LayoutQualifiers,
+  outer: BlockLayout = { packing: "shared", matrixOrder: "column_major" },
+): BlockLayout {
+  return {
+    packing: packing || outer.packing,
+    matrixOrder: matrixOrder || outer.matrixOrder,
+  };
+}
+
+/**
+ * Reads the qualifiers of a layout string (as it is placed on the `layout`
+ * attribute of a `GLSLVariable`) into a `LayoutQualifiers` object.
+ * i.e. "location=1" sets the `location` to 1, "std140,row_major" sets the
+ * `packing` to "std140" and the `matrixOrder` to "row_major".
+ *
+ * The values are GLSL integer literals, i.e. "2", "0x2" or "2u". Qualifiers
+ * that are not known (or known qualifiers with a value that is not an integer
+ * literal) are placed on the `other` map with their value, or `true` if they
+ * have no value.
+ */
+function parseLayoutQualifiers(layout: string | null): LayoutQualifiers {
+  const qualifiers: LayoutQualifiers = {
+    location: null,
+    binding: null,
+    offset: null,
+    packing: null,
+    matrixOrder: null,
+    other: {},
+  };
+  if (!layout) return qualifiers;
+  for (const qualifier of layout.replace(/\s/g, "").split(",")) {
+    if (qualifier.length === 0) continue;
+    const [key, value] = qualifier.split("=");
+    const number = typeof value === "string" ? parseIntegerLiteral(value) : NaN;
+    if (
+      !isNaN(number) &&
+      (key === "location" || key === "binding" || key === "offset")
+    ) {
+      qualifiers[key] = number;
+    } else if (key === "std140" || key === "shared" || key === "packed") {
+      qualifiers.packing = key;
+    } else if (key === "row_major" || key === "column_major") {
+      qualifiers.matrixOrder = key;
+    } else {
+      qualifiers.other[key] = typeof value === "string" ? value : true;
+    }
+  }
+  return qualifiers;
+}
+
+/**
+ * An expression of the code being read, with its tokens. The `start` and
+ * `end` are the offsets where its first token starts and its last token ends.
+ */
+interface Expression {
+  tokens: Token[];
+  start: number;
+  end: number;
+}
+
 /** Discard every expression that does not start with what can be a
  * variable declaration. This returns false for all list of strings that do not
- * start with the words: "uniform", "in", "out", "layout" and a "precision"
- * declaration big enough to be considered part of a variable declaration.
+ * start with the words: "uniform", "in", "out", "attribute", "varying",
+ * "const", "layout", "centroid", "flat", "smooth" and the "invariant"
+ * declarations big enough to be considered part of a variable declaration
+ * (statements like `invariant gl_Position;` are not declarations).
  */
 function expressionShaderIOFilter(expressionWords: string[]) {
   if (expressionWords.length === 0) return false;
@@ -273,113 +1497,234 @@ function expressionShaderIOFilter(expressionWords: string[]) {
       initialWord === "uniform" ||
       initialWord === "in" ||
       initialWord === "out" ||
-      initialWord.includes("layout") ||
-      //
-      (initialWord.includes("precision") && expressionWords.length > 3)
+      initialWord === "attribute" ||
+      initialWord === "varying" ||
+      initialWord === "const" ||
+      initialWord === "centroid" ||
+      isInterpolation(initialWord) ||
+      (initialWord === "invariant" && expressionWords.length > 2) ||
+      initialWord === "layout"
     )
   );
 }
 
+/**
+ * This expression filter considers the list of words that are read on the
+ * top level of the shader: the variable declarations (constants included,
+ * see `expressionShaderIOFilter()`) and the struct declarations.
+ **/
+function expressionDeclarationsFilter(expressionWords: string[]) {
+  return expressionShaderIOFilter(expressionWords) ||
+    expressionStructsFilter(expressionWords);
+}
+
+/**
+ * This expression filter considers the global variables declared without a
+ * storage qualifier: the list of words that start with a GLSL type, a
+ * precision or one of the struct names of the `extraTypes`, i.e.
+ * `highp vec3 g_color;` or `Light g_light;`.
+ **/
+function expressionGlobalsFilter(
+  expressionWords: string[],
+  extraTypes: Set<string>,
+) {
+  if (expressionWords.length < 2) return false;
+  const type = expressionWords[0];
+  return isGLSLType(type) || isGLSLPrecision(type) || extraTypes.has(type);
+}
+
+/**
+ * Returns true if the words redeclare a variable as invariant, i.e.
+ * `invariant gl_Position;`
+ */
+function isInvariantStatement(words: string[]): boolean {
+  return words.length === 2 && words[0] === "invariant";
+}
+
 /**
  * This expression filter only considers list of words that start with the word
- * "struct". This is useful to parse only expressions that declare structs when
- * calling `readExpressions()`
+ * "struct", or that declare a struct inline (i.e. `uniform struct Light {...}
+ * u_light`). This is useful to parse only expressions that declare structs
+ * when calling `readExpressions()`
  **/
 function expressionStructsFilter(expressionWords: string[]) {
   if (expressionWords.length === 0) return false;
-  return (expressionWords[0] === "struct");
+  return (expressionWords[0] === "struct" ||
+    declaresInlineStruct(expressionWords));
 }
 
 /**
- * This is an expression filter creator, it returns a function that extends the
- * `expressionShaderIOFilter()` function to consider all common GLSL variable
- * declarations as well as those that are set with the types defined at the
- * provided `extraTypes` word list.
- * 
- * Example: If a struct is declared to be something like:
- * 
- *  struct Material
- *  {
- *    vec3 ambient;
- *    vec3 diffuse;
- *    vec3 specular;
- *    float shininess;
- *  };
- * 
- * Then a new variable could be declared like:
- *  
+ * Returns true if the words declare a struct after the qualifiers, i.e.
+ * `uniform struct Light { ... } u_light`
+ */
+function declaresInlineStruct(expressionWords: string[]): boolean {
+  return expressionWords.slice(1).includes("struct");
+}
+
+/**
+ * This is the expression filter of the statements inside a block (a uniform
+ * block or a struct). Every statement there declares a member, with any of the
+ * common GLSL types or a previously declared struct. i.e.
+ *
  *  uniform PerScene
  *  {
  *    Material material; // Notice the `Material` here being used as the type
  *  } u_perScene;
- * 
- * This function returns a function that extends the shader IO variables filter
- * so that it considers these variables too.
+ *
+ * The statements that are not valid declarations (i.e. `42 bad;` or `foo;`)
+ * are read too, to be reported as invalid block members.
  **/
-function createVariablesFilter(extraTypes: string[]) {
-  return ((expressionWords: string[]) => {
-    if (expressionWords.length === 0) return false;
-    return (isGLSLType(expressionWords[0]) ||
-      extraTypes.includes(expressionWords[0]) ||
-      expressionShaderIOFilter(expressionWords));
-  });
+function blockMembersFilter(expressionWords: string[]) {
+  return expressionWords.length > 0;
 }
 
 /**
- * This function reads a string and replaces the contents between the
- * `blockStart` and `blockEnd` strings. The contents between these two
- * delimiters can be changed with the `replacer()` string passed as argument.
- * 
- * All delimiters are considered. The `replacer()` function is called once per
- * each contained string found. This means that the `code` string can have
- * several delimiters because `replaceBlocks()` will consider them all.
- * 
- * It returns a new `code` string with the replacements made in it. This
- * function does not change the argument `code` string. It creates a new one.
+ * The information needed to locate the tokens on the original code string,
+ * and the state set by the statements read so far.
  */
-function replaceBlocks(
-  code: string,
-  blockStart: string,
-  blockEnd: string,
-  replacer: (match: string) => string = () => "",
-): string {
-  // Get an array with all the substrings delimited by the `blockStart` string.
-  const blocks = code.split(blockStart);
-  // Return the original code if the split did not find the blockStart to split
-  if (blocks.length <= 1) {
-    return code;
-  }
-  let result = code; // All changes are accumulated into this `result` variable.
-  // Run through all the strings and replace each of their contents up until the
-  // location of the `blockEnd` string.
-  for (let i = 0; i < blocks.length; i++) {
-    const b = blocks[i]; // `b` is the current substring being considered
-    const endIndex = b.indexOf(blockEnd);
-    // Call `replace()` only if the `blockEnd` string is found on this substring
-    if (endIndex > 0) {
-      // Call the `replacer()` function. This is standard String.replace() API.
-      result = result.replace(b.slice(0, endIndex), replacer);
-    }
+interface SourceContext {
+  // Transforms an offset of the preprocessed code into a line/column position
+  // of the original code.
+  positionAt: (offset: number) => SourcePosition;
+  // When true the invalid declarations are reported on the `diagnostics`
+  // array instead of throwing an exception.
+  recover: boolean;
+  diagnostics: GLSLDiagnostic[];
+  // When true the variables that use a struct that is not declared are
+  // reported (the struct can be declared on another code string otherwise)
+  resolveStructs: boolean;
+  // The GLSL version and stage of the shader being read
+  version: GLSLVersion;
+  stage: ShaderStage;
+  // The uniform block layout set by the default layout statements read so far
+  defaultBlockLayout: Partial<LayoutQualifiers>;
+  // The default precision of each type ("float", "int" or a sampler type), set
+  // by the shader stage and by the precision statements read so far
+  defaultPrecision: Record<string, GLSLPrecision>;
+  // The values of the integer constants declared on the shader, by name
+  constants: Map<string, number>;
+}
+
+/**
+ * Guesses the stage of a shader from its (preprocessed) code. A shader that
+ * declares "attribute" variables or sets the `gl_Position` is a vertex shader,
+ * otherwise it is considered to be a fragment shader.
+ */
+function detectStage(code: string): ShaderStage {
+  return /\battribute\b|\bgl_Position\b/.test(code) ? "vertex" : "fragment";
+}
+
+/**
+ * Returns the GLSL ES 3.00 qualifier that corresponds to the GLSL ES 1.00
+ * "attribute" and "varying" qualifiers. Other words are returned unchanged.
+ *
+ * On GLSL ES 3.00 shaders these words are reserved and are also returned
+ * unchanged (which makes the declarations that use them invalid).
+ */
+function normalizeQualifier(word: string, source: SourceContext): string {
+  if (source.version !== 100) return word;
+  if (word === "attribute") return "in";
+  if (word === "varying") return source.stage === "vertex" ? "out" : "in";
+  return word;
+}
+
+/**
+ * GLSL ES 1.00 fragment shaders have no "out" variables, they write their
+ * results into the built-in `gl_FragColor` or `gl_FragData` variables. This
+ * function returns an "out" variable for each of these built-ins that is used
+ * on the code; its range is the place where it is used for the first time.
+ *
+ * It returns an empty array for other shaders. The `tokens` are the ones of
+ * the whole code (with the function bodies still in them).
+ */
+function readImplicitOutputs(
+  tokens: Token[],
+  source: SourceContext,
+): GLSLVariable[] {
+  if (source.version !== 100 || source.stage !== "fragment") return [];
+  const outputs: GLSLVariable[] = [];
+  for (const name of ["gl_FragColor", "gl_FragData"]) {
+    const token = tokens.find((t) => t.text === name);
+    if (!token) continue;
+    outputs.push({
+      qualifier: "out",
+      type: "vec4",
+      name,
+      amount: 1,
+      dimensions: [],
+      isUnsizedArray: false,
+      value: null,
+      isInvariant: false,
+      isCentroid: false,
+      interpolation: null,
+      layout: null,
+      layoutQualifiers: parseLayoutQualifiers(null),
+      precision: null,
+      // The built-in outputs are declared as "mediump" by the spec
+      effectivePrecision: "mediump",
+      block: null,
+      instanceName: null,
+      structName: null,
+      struct: null,
+      version: 100,
+      range: {
+        start: source.positionAt(token.start),
+        end: source.positionAt(token.end),
+      },
+    });
   }
-  // The new string with the replacements done in it. If no replaces were
-  // performed this will be the original `code` string from the argument.
-  return result;
+  return outputs;
+}
+
+/**
+ * Creates a function that returns the line and column of an offset in the
+ * `code` string. The start offset of each line is calculated once, and looked
+ * up with a binary search on each call.
+ */
+function createPositionLocator(code: string) {
+  const lineStarts = [0];
+  for (let i = 0; i < code.length; i++) {
+    if (code[i] === "\n") lineStarts.push(i + 1);
+  }
+  return (offset: number): SourcePosition => {
+    // Find the last line that starts before (or at) the offset
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if (lineStarts[middle] <= offset) low = middle;
+      else high = middle - 1;
+    }
+    return { line: low + 1, column: offset - lineStarts[low] + 1, offset };
+  };
 }
 
 /**
  * The valid GLSL variable `Qualifier`s to consider. For this parser use cases
  * these will be the strings "in", "uniform" and "out", which correspond to the
- * WebGL2 I/O variables.
+ * WebGL2 I/O variables, and "const" for the global constants. The WebGL1
+ * "attribute" and "varying" qualifiers are read as one of these (see
+ * `normalizeQualifier()`).
  */
-type Qualifier = "in" | "uniform" | "out";
+export type Qualifier = "in" | "uniform" | "out" | "const";
 /** A type-guard that will make sure a given value is of the type Qualifier */
-function isQualifier(value: unknown): value is Qualifier {
+export function isQualifier(value: unknown): value is Qualifier {
   return (
     typeof value === "string" &&
-    (value === "in" || value === "uniform" || value === "out")
+    (value === "in" || value === "uniform" || value === "out" ||
+      value === "const")
   );
 }
 
+/**
+ * The interpolation qualifiers of the shader inputs and outputs.
+ */
+export type Interpolation = "flat" | "smooth";
+/** A type-guard that checks if a value is an `Interpolation` qualifier */
+function isInterpolation(value: unknown): value is Interpolation {
+  return value === "flat" || value === "smooth";
+}
+
 /**
  * This function changes the provided `variable` passed on the 2nd argument.
  * It reads the `word` passed as argument and places it in the correct 
@@ -391,20 +1736,20 @@ function isQualifier(value: unknown): value is Qualifier {
  * It can place a `word` string in the following attributes of a `GLSLVariable`:
  * - qualifier
  * - structName
- * - type (it also considers the values present on the `extraTypes` array)
- * - amount
+ * - type (it also considers the values present on the `extraTypes` set)
  * - isCentroid
  * - isInvariant
+ * - interpolation
  * - precision
  * - name
  * 
  * If a valid `variable` attribute is not found the `variable` is returned
- * unchanged. 
+ * unchanged. The array sizes are read by `readVariable()`.
  */
 function parseExpressionWord(
   word: string,
   variable: Partial<GLSLVariable>,
-  extraTypes: string[] = [],
+  extraTypes: Set<string> = new Set(),
 ): Partial<GLSLVariable> {
   // Set the word as the `variable` qualifier if it was not set before.
   if (!variable.qualifier && (isQualifier(word) || word === "struct")) {
@@ -413,8 +1758,12 @@ function parseExpressionWord(
   }
   // Check if the word is one of the provided `extraTypes`. If so then
   // set it as the structName and a type ("struct"). Setting a type prevents
-  // the `type` to be set further bellow.
-  if (!variable.structName && extraTypes.includes(word)) {
+  // the `type` to be set further bellow. The name on a struct declaration is
+  // not a type (it is the struct name).
+  if (
+    !variable.structName && variable.qualifier !== "struct" &&
+    extraTypes.has(word)
+  ) {
     // "struct" is a special type that indicates that this variable is using
     // a previously declared struct as a type. The name of the struct being
     // used is set as the `structName`.
@@ -427,20 +1776,6 @@ function parseExpressionWord(
     variable.type = word;
     return variable;
   }
-  // Check if this word is an array and set the number and name attributes.
-  // TODO: this will not work for array declarations that have a space: [ 12 ]
-  const bracketIndex = word.indexOf("[");
-  if (bracketIndex >= 0) {
-    // Convert the contents of the brackets to a Number
-    variable.amount = Number(
-      word.slice(bracketIndex + 1, word.indexOf("]")),
-    );
-    // Set the variable name if it is attached to the bracket, i.e. values[2]
-    if (bracketIndex > 0) {
-      variable.name = word.slice(0, bracketIndex);
-    }
-    return variable;
-  }
   // Set the `variable` isCentroid boolean to true if the word is "centroid".
   if (!variable.isCentroid && word === "centroid") {
     variable.isCentroid = true;
@@ -451,6 +1786,11 @@ function parseExpressionWord(
     variable.isInvariant = true;
     return variable;
   }
+  // Set the `variable` interpolation if the word is "flat" or "smooth".
+  if (!variable.interpolation && isInterpolation(word)) {
+    variable.interpolation = word;
+    return variable;
+  }
   // Check if the word is a precision modifier and set the `variable` precision.
   if (!variable.precision && isGLSLPrecision(word)) {
     variable.precision = word;
@@ -462,6 +1802,15 @@ function parseExpressionWord(
     variable.name = word;
     return variable;
   }
+  // A name followed by another name, without a type, means that the first one
+  // is a type that is not known. It is read as a struct that was not declared
+  // (`readExpressions()` reports it).
+  if (!variable.type && /^[A-Za-z_]\w*$/.test(word)) {
+    variable.type = "struct";
+    variable.structName = variable.name;
+    variable.name = word;
+    return variable;
+  }
   // Reaching here means that no modification was done, return the variable
   // as is
   return variable;
@@ -478,227 +1827,309 @@ function parseExpressionWord(
 function createPartialVariable(): Partial<GLSLVariable> {
   return {
     precision: null,
+    effectivePrecision: null,
+    interpolation: null,
     layout: null,
+    layoutQualifiers: parseLayoutQualifiers(null),
     block: null,
+    instanceName: null,
     isCentroid: false,
     isInvariant: false,
     amount: 1,
+    dimensions: [],
+    isUnsizedArray: false,
+    value: null,
     structName: null,
+    struct: null,
   };
 }
 
 /**
- * This function calls the provided `processor()` function with the list of
- * words from `expressionWords` that show up between the `leftLimit` and
- * `rightLimit` strings.
- * 
- * It does not modify any of the arguments. The `processor()` function provided
- * is expected to have its own context to operate.
- * 
- * Similar to the `replaceBlocks()`, this function takes the consideration that
- * the provided `expressionWords` string array is currently being processed and
- * returns an adjusted array to have the word in it without the limiters.
- * 
- * This function does not go through all the occurrences of the limits. It works
- * only on the first left/right limit strings found.
- * 
- * It returns an adjusted list of words by adding those found immediately 
- * before the `leftLimit` string and/or immediately after the `rightLimit`
- * string.
+ * Returns the tokens inside each [ ] of the `tokens` that start with a "[",
+ * i.e. the tokens of "[4][N * 2]" are read as [["4"], ["N", "*", "2"]].
  */
-function processWordsWithin(
-  expressionWords: string[],
-  leftLimit: string,
-  rightLimit: string,
-  processor: (input: string[]) => void,
-): string[] {
-  // Result is the new `expressionWords` array. Adjusted to contain the remains
-  // of the words found next to the left/right limit strings.
-  const result = [];
-  // The processor input is the array of words that is passed to the provided
-  // `processor` function.
-  let processorInput: string[] = [];
-  // This function starts by finding the indices of the left/right limit strings
-  // This is useful because they are used a lot during the rest of this code.
-  const startIndex = expressionWords.findIndex((w) => w.includes(leftLimit));
-  const endIndex = expressionWords.findIndex((w) => w.includes(rightLimit));
-  // Check if the this `expressionWords` list has the left/right limit strings.
-  if (startIndex === -1 && endIndex === -1) {
-    // Return the original word list unchanged.
-    // The limit strings were not found.
-    return expressionWords;
-  }
-  // The last word is the word where first occurrence of the rightLimit string
-  // was found.
-  const lastWord = expressionWords[endIndex];
-
-  // The last word can be empty, in which case there is nothing to do by this
-  // function.
-  if (typeof lastWord === "undefined" || lastWord.length === 0) {
-    // Return the original word list unchanged.
-    return expressionWords;
-  }
-  // The case where the limits happen both on the same word.
-  if (startIndex === endIndex) {
-    // Set the input to be the slice of the word between the limit strings.
-    processorInput.push(
-      lastWord.slice(
-        lastWord.indexOf(leftLimit) + 1,
-        lastWord.indexOf(rightLimit),
-      ),
-    );
-  } else {
-    // The case where the limits happen in different words needs to consider
-    // all the words between the word where the leftLimit is present, up until
-    // the word where the rightLimit is found.
-
-    // Start by placing on the `processorInput` array the contents of the first
-    // word found that show up after the `leftLimit` position.
-    // e.g. For a leftLimit of "(" the first word of this:
-    // `something(content1 content2 content3)something` would be the string
-    // "something(content1", of which this code starts by considering the
-    // part that shows after leftLimit, namely the "content1" string.
-    processorInput.push(expressionWords[startIndex].slice(
-      expressionWords[startIndex].indexOf(leftLimit) + 1,
-    ));
-    // Merge on the processorInput all words that show up between the limiters.
-    processorInput = processorInput.concat(
-      expressionWords.slice(startIndex + 1, endIndex),
-    );
-    // As the example for the first word above. This will place on the
-    // processInput the contents of the last word up until the right limiter.
-    processorInput.push(lastWord.slice(
-      0,
-      lastWord.indexOf(rightLimit),
-    ));
-  }
-  // Calls the `processor()` on the list of words found within the
-  // `leftLimit` and `rightLimit`
-  processor(processorInput);
-  // Look at the last word, and clear the `rightLimit` string from it.
-  if (lastWord.indexOf(rightLimit) < lastWord.length - 1) {
-    result.push(lastWord.slice(lastWord.indexOf(rightLimit) + 1));
-  }
-  // Adjust the expressionWords to include the eventual words that were outside
-  // the left/right limiters but attached to them:
-  // e.g. for `something1(content1 content2 content3)something2` this would be
-  // the words "something1" and "something2" for the limiters "(" and ")".
-  return result.concat(expressionWords.slice(endIndex + 1));
-}
-
-/**
- * This function reads a GLSLVariable from an expression (split in words)
- * provided by the `expressionWords` array.
+function readBracketGroups(tokens: Token[]): Token[][] {
+  const groups: Token[][] = [];
+  let i = 0;
+  while (tokens[i]?.text === "[") {
+    const closeIndex = closingIndex(tokens, i);
+    groups.push(tokens.slice(i + 1, closeIndex));
+    i = closeIndex + 1;
+  }
+  return groups;
+}
+
+/**
+ * Reads the array sizes (the tokens inside each [ ]) into the `variable`
+ * dimensions (after the ones it already has), and sets its `amount` to the
+ * total number of elements. Empty sizes (`[]`) make it an unsized array.
+ * Sizes that are not greater than zero are not valid, they are read as NaN.
+ */
+function readArraySizes(
+  sizes: Token[][],
+  variable: Partial<GLSLVariable>,
+  evaluate: (tokens: Token[]) => number,
+) {
+  if (sizes.length === 0) return;
+  if (sizes.some((size) => size.length === 0)) variable.isUnsizedArray = true;
+  variable.dimensions = (variable.dimensions || []).concat(
+    sizes.map((size) => {
+      if (size.length === 0) return 0;
+      const value = evaluate(size);
+      return value > 0 ? value : NaN;
+    }),
+  );
+  variable.amount = variable.dimensions.reduce(
+    (total, size) => total * size,
+    1,
+  );
+}
+
+/**
+ * Evaluates an integer constant expression, the names of the `constants` are
+ * replaced by their values. Returns NaN if the expression can't be evaluated.
+ */
+function evaluateConstant(
+  expression: string,
+  constants: Map<string, number>,
+): number {
+  const resolved = expression.replace(
+    /\b[A-Za-z_]\w*/g,
+    (word) => constants.has(word) ? `(${constants.get(word)})` : word,
+  );
+  try {
+    return evaluateExpression(resolved);
+  } catch (_error) {
+    return NaN;
+  }
+}
+
+/**
+ * This function reads a GLSLVariable from the tokens of an expression.
  * 
- * It starts by creating an empty Partial GLSLVariable and works in 3 sequential
+ * It starts by creating an empty Partial GLSLVariable and works in 4 sequential
  * steps:
- * 1. Process the empty variable layout()
- * 2. Set the empty variable attributes by processing each word with the
+ * 1. Read the variable layouts, i.e. `layout(location = 2)`
+ * 2. Read the { } block: a struct declared inline is read as the struct used
+ * by the variable, otherwise the tokens after the block are read as the
+ * instance name of a uniform block
+ * 3. Set the empty variable attributes by processing each word with the
  * function `parseExpressionWord()` - `extraTypes` are considered here.
- * 3. Process the variable block { } if it has one - reads the corresponding
- * string on the provided `blocks` array.
+ * 4. Read the variables declared in the block, if it has one.
+ * 
+ * The initializer of the constants (the tokens after the "=") is evaluated
+ * after step 3, and the array sizes are evaluated on steps 2 and 3.
  * 
  * It throws an exception if it has a block and the block variables are not
  * well formed.
  * 
- * It assumes that the blocks were preprocessed before for the limiters:
- * - "(" ")"
- * - "{" "}"
- * 
  * Returns the Partial `GLSLVariable` that could be read from the
- * `expressionWords` array.
+ * `expressionTokens` array.
  */
 function readVariable(
-  expressionWords: string[],
+  expressionTokens: Token[],
   {
-    blocks = [],
-    extraTypes = [],
+    source,
+    extraTypes = new Set(),
   }: {
-    blocks: string[];
-    extraTypes?: string[];
+    source: SourceContext;
+    extraTypes?: Set<string>;
   },
 ): Partial<GLSLVariable> {
+  // Evaluates a constant expression of this declaration, i.e. an array size
+  const evaluate = (tokens: Token[]) =>
+    evaluateConstant(wordsOf(tokens).join(" "), source.constants);
   // Start with an empty variable and fill it on this function.
   const variable: Partial<GLSLVariable> = createPartialVariable();
-  // Manipulation and reassignment of the list of words on the expression
-  // can happen during parsing. Use a different variable for these operations.
-  let words = expressionWords;
-
-  // Part 1: Check if it has a layout, set the "layout" variable contents to be
-  // the string found inside the parenthesis.
-  words = processWordsWithin(expressionWords, "(", ")", (blockNumber) => {
-    // Read the block number where the contents of the "(" ")" were placed
-    // (after being preprocessed outside this function).
-    const blockIndex = Number(blockNumber);
-    if (!isNaN(blockIndex) && blockIndex >= 0 && blockIndex < blocks.length) {
-      // Set the layout attribute to be the string inside the ( ).
-      // This string will have all its spaces removed, this means that
-      // "layout( location = 2 )" will translate to "location=2".
-      variable.layout = blocks[Number(blockNumber)].split(" ").join("");
+  // Constants are initialized after the "=", the initializer tokens are not
+  // part of the declaration (i.e. `const float PI = 3.14159`)
+  const [declaration] = splitOutsideBrackets(expressionTokens, "=");
+  const initializer = expressionTokens.slice(declaration.length + 1);
+  // Part 1: Read the layouts, the layout string is their ( ) contents without
+  // spaces, i.e. "layout( location = 2 )" is read as "location=2". The layouts
+  // of the block members are read with the members.
+  const layouts: string[] = [];
+  let tokens: Token[] = [];
+  for (let i = 0; i < declaration.length; i++) {
+    if (declaration[i].text === "layout" && declaration[i + 1]?.text === "(") {
+      const closeIndex = closingIndex(declaration, i + 1);
+      layouts.push(wordsOf(declaration.slice(i + 2, closeIndex)).join(""));
+      i = closeIndex;
+    } else if (declaration[i].text === "{") {
+      if (!isClosed(declaration, i)) {
+        reportSyntaxError(
+          "unclosed-block",
+          'Missing the "}" that closes the "{" of the declaration',
+          declaration[i],
+          source,
+        );
+      }
+      const closeIndex = closingIndex(declaration, i);
+      tokens = tokens.concat(declaration.slice(i, closeIndex + 1));
+      i = closeIndex;
+    } else {
+      tokens.push(declaration[i]);
     }
-  });
-  // Part 2: Read all words and place them on the corresponding variable
+  }
+  if (layouts.length > 0) {
+    variable.layout = layouts.join(",");
+    // The layout qualifiers are read from the layout string
+    variable.layoutQualifiers = parseLayoutQualifiers(variable.layout);
+  }
+  // Part 2: Read the { } block of structs and uniform blocks
+  let blockTokens: Token[] | null = null;
+  const openIndex = tokens.findIndex((t) => t.text === "{");
+  if (openIndex >= 0) {
+    const closeIndex = closingIndex(tokens, openIndex);
+    const structIndex = tokens.findIndex((t) => t.text === "struct");
+    if (structIndex > 0 && structIndex < openIndex) {
+      // Structs can be declared inline, i.e.
+      // `uniform struct Light { ... } u_light`, the struct tokens are read as
+      // a struct declaration, and the variable is set to use it.
+      const struct = readVariable(
+        tokens.slice(structIndex, closeIndex + 1),
+        { source, extraTypes },
+      );
+      const nameToken = tokens[structIndex + 1];
+      const structName = nameToken.kind === "identifier" ? nameToken.text : "";
+      struct.name = structName;
+      struct.version = source.version;
+      // The struct is located from the start of the declaration to its "}"
+      struct.range = {
+        start: source.positionAt(expressionTokens[0].start),
+        end: source.positionAt(tokens[closeIndex].end),
+      };
+      variable.type = "struct";
+      variable.structName = structName || null;
+      // Only use the struct if it is a valid full `GLSLVariable`
+      if (isGLSLVariable(struct)) {
+        variable.struct = struct;
+      } else if (source.recover) {
+        reportInvalidVariable(struct, "invalid-declaration", source);
+      } else {
+        throw new Error(`Invalid struct: ${JSON.stringify(struct)}`);
+      }
+      tokens = tokens.slice(0, structIndex).concat(
+        tokens.slice(closeIndex + 1),
+      );
+    } else {
+      blockTokens = tokens.slice(openIndex + 1, closeIndex);
+      // On uniform blocks the tokens after the closing "}" declare the
+      // instance name (and the array size if the instance is an array) i.e.
+      // `uniform Lights { ... } u_lights[4];`. Structs followed by a name
+      // declare a variable of that struct type, not an instance. These are not
+      // read by this parser.
+      const [instance, ...instanceSizes] = tokens.slice(closeIndex + 1);
+      if (instance?.kind === "identifier" && structIndex < 0) {
+        variable.instanceName = instance.text;
+        const sizes = readBracketGroups(instanceSizes);
+        readArraySizes(sizes, variable, evaluate);
+        // Nothing is declared after the instance name and its array sizes
+        const trailing = instanceSizes[
+          sizes.reduce((n, size) => n + size.length + 2, 0)
+        ];
+        if (trailing) {
+          reportSyntaxError(
+            "unexpected-token",
+            `Unexpected "${trailing.text}" after the "${instance.text}" declaration`,
+            trailing,
+            source,
+          );
+        }
+      } else if (instance && structIndex < 0) {
+        reportSyntaxError(
+          "unexpected-token",
+          `Unexpected "${instance.text}" after the block declaration`,
+          instance,
+          source,
+        );
+      }
+      tokens = tokens.slice(0, openIndex);
+    }
+  }
+  // Part 3: Read all words and place them on the corresponding variable
   // attributes. Words that don't match a particular variable attribute are
-  // ignored.
-  for (let word of words) {
-    // Do some clean-up before
-    // Remove the { bracket from the word if it has one
-    const openBracketIndex = word.indexOf("{");
-    if (openBracketIndex >= 0) {
-      word = word.slice(0, openBracketIndex);
+  // ignored. The array sizes set on the type, i.e. `float[3] values`, are
+  // read after the ones set on the name (as in `float values[3]`).
+  const typeSizes: Token[][] = [];
+  let isAfterType = false;
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token.text === "[") {
+      const closeIndex = closingIndex(tokens, i);
+      const size = tokens.slice(i + 1, closeIndex);
+      if (isAfterType) typeSizes.push(size);
+      else readArraySizes([size], variable, evaluate);
+      i = closeIndex;
+      continue;
     }
-    // Remove the } bracket from the word if it has one
-    const closeBracketIndex = word.indexOf("}");
-    if (closeBracketIndex >= 0) {
-      word = word.slice(closeBracketIndex + 1);
+    // The declaration ends with its name (and array sizes), a token after it
+    // is the start of another statement without the ";" before it
+    if (variable.type && variable.name) {
+      reportSyntaxError(
+        "unexpected-token",
+        `Unexpected "${token.text}" after the "${variable.name}" declaration`,
+        token,
+        source,
+      );
+      break;
     }
+    isAfterType = isGLSLType(token.text) || extraTypes.has(token.text);
+    if (token.kind !== "identifier" && token.kind !== "keyword") continue;
     // Set the variable attribute that matches this word content.
     // i.e. if the word is "float" it will go into the "type" attribute
-    parseExpressionWord(word, variable, extraTypes);
+    // The GLSL ES 1.00 qualifiers are placed as their "in"/"out" equivalents.
+    parseExpressionWord(
+      normalizeQualifier(token.text, source),
+      variable,
+      extraTypes,
+    );
+  }
+  readArraySizes(typeSizes, variable, evaluate);
+  // The value of the constants is their initializer, when it can be evaluated
+  if (variable.qualifier === "const" && initializer.length > 0) {
+    const value = evaluate(initializer);
+    variable.value = isNaN(value) ? null : value;
   }
-  // Part 3: Process the block if this expression has one. This is where
+  // Part 4: Process the block if this expression has one. This is where
   // recursion happens, because all variables inside the block will be
   // processed with `readExpressions()` which splits the block into expressions
   // and calls `readVariables()` for each of those expressions.
-  processWordsWithin(words, "{", "}", (blockNumber) => {
-    // Read the block number where the contents of the "{" "}" were placed
-    // (this is assumed to have been preprocessed before calling this function).
-    const blockIndex = Number(blockNumber);
-    if (!isNaN(blockIndex) && blockIndex >= 0 && blockIndex < blocks.length) {
-      // Recursively split the block expressions and read its variables:
-      variable.block = readExpressions(
-        blocks[blockIndex],
-        {
-          blocks,
-          extraTypes,
-          // Only consider expressions that are GLSL variables. These GLSL
-          // variables can be declared with any valid GLSL type like
-          // "float", "vec3", etc... but can also be declared with any of the
-          // names present on the "extraTypes" array. This ensures the that
-          // filter will be able to look for variables that are using a
-          // previously declared struct.
-          expressionFilter: createVariablesFilter(extraTypes),
-        },
-      ).map((v): GLSLVariable => {
-        // In GLSL, variables inside block declarations inherit the block
-        // qualifier if they don't define their own qualifier.
-        if (!v.qualifier) {
-          v.qualifier = variable.qualifier;
-        }
-        // Only proceed if the variable read on the block is a valid full
-        // `GLSLVariable`
-        if (isGLSLVariable(v)) {
-          return v;
-        } else {
-          throw new Error(`Invalid block variable: ${JSON.stringify(v)}`);
-        }
-      });
-      // Variables that declare a block are always set to have the fictitious
-      // type "block". This is used by this parser to specify variables that
-      // are blocks.
-      variable.type = "block";
-    }
-  });
+  if (blockTokens) {
+    // Recursively split the block expressions and read its variables:
+    variable.block = readExpressions(
+      blockTokens,
+      {
+        source,
+        extraTypes,
+        // Every expression inside a block declares a variable, these are
+        // read with the names present on the "extraTypes" set as types to
+        // find the variables that are using a previously declared struct.
+        expressionFilter: blockMembersFilter,
+      },
+    ).map((v): GLSLVariable | null => {
+      // In GLSL, variables inside block declarations inherit the block
+      // qualifier if they don't define their own qualifier.
+      if (!v.qualifier) {
+        v.qualifier = variable.qualifier;
+      }
+      // Only proceed if the variable read on the block is a valid full
+      // `GLSLVariable`
+      if (isGLSLVariable(v)) {
+        return v;
+      } else if (source.recover) {
+        // Skip the invalid block variable and keep the rest of the block
+        reportInvalidVariable(v, "invalid-block-member", source);
+        return null;
+      } else {
+        throw new Error(`Invalid block variable: ${JSON.stringify(v)}`);
+      }
+    }).filter((v): v is GLSLVariable => v !== null);
+    // Variables that declare a block are always set to have the fictitious
+    // type "block". This is used by this parser to specify variables that
+    // are blocks.
+    variable.type = "block";
+  }
   // Return the Partial<GLSLVariable> filled with that was possible to read
   return variable;
 }
@@ -707,9 +2138,16 @@ function readVariable(
  * This function applies the `isGLSLVariable()` type-guard to a variable and
  * throws an exception if the variable is not a valid full `GLSLVariable`.
  */
-function fromPartialToFullVariable(variable: Partial<GLSLVariable>) {
+function fromPartialToFullVariable(
+  variable: Partial<GLSLVariable>,
+  source: SourceContext,
+): GLSLVariable | null {
   if (isGLSLVariable(variable)) {
     return variable;
+  } else if (source.recover) {
+    // Skip the invalid variable, the diagnostic says why it was skipped
+    reportInvalidVariable(variable, "invalid-declaration", source);
+    return null;
   } else {
     throw new Error(
       "Unable to read a full GLSL variable: " + JSON.stringify(variable),
@@ -718,125 +2156,111 @@ function fromPartialToFullVariable(variable: Partial<GLSLVariable>) {
 }
 
 /**
- * The possible precision modifier strings of a GLSL variable.
- * These values were taken from the GLSL 300 spec.
- **/
-type GLSLPrecision = "highp" | "mediump" | "lowp";
-function isGLSLPrecision(value: string): value is GLSLPrecision {
-  return value === "highp" || value == "mediump" || value === "lowp";
+ * Adds an error diagnostic to the `source` diagnostics list for a variable
+ * that could not be read as a full `GLSLVariable`. The message tells the
+ * first attribute that was not possible to read.
+ */
+function reportInvalidVariable(
+  variable: Partial<GLSLVariable>,
+  code: string,
+  source: SourceContext,
+) {
+  const name = variable.name ? `"${variable.name}"` : "variable";
+  let reason = "it is not a valid declaration";
+  if (!variable.qualifier) {
+    reason = "it has no qualifier";
+  } else if (!variable.type) {
+    reason = "it has no valid type";
+  } else if (!variable.name) {
+    reason = "it has no name";
+  } else if (typeof variable.amount !== "number" || isNaN(variable.amount)) {
+    reason = "its array size is not a number";
+  }
+  source.diagnostics.push({
+    severity: "error",
+    code,
+    message: `Unable to read the ${name} declaration: ${reason}`,
+    range: variable.range || {
+      start: source.positionAt(0),
+      end: source.positionAt(0),
+    },
+  });
 }
 
 /**
- * The possible "type"'s of a GLSL variable.
- * These were taken from the spec GLSL 300 spec.
- **/
-type GLSLType =
-  | "double"
-  | "float"
-  | "uint"
-  | "int"
-  | "bool"
-  | "vec2"
-  | "vec3"
-  | "vec4"
-  | "dvec2"
-  | "dvec3"
-  | "dvec4"
-  | "uvec2"
-  | "uvec3"
-  | "uvec4"
-  | "ivec2"
-  | "ivec3"
-  | "ivec4"
-  | "bvec2"
-  | "bvec3"
-  | "bvec4"
-  | "mat2"
-  | "mat3"
-  | "mat4"
-  | "mat2x2"
-  | "mat2x3"
-  | "mat2x4"
-  | "mat3x2"
-  | "mat3x3"
-  | "mat3x4"
-  | "mat4x2"
-  | "mat4x3"
-  | "mat4x4"
-  | "sampler2D"
-  | "sampler3D"
-  | "samplerCube"
-  | "samplerCubeShadow"
-  | "sampler2DShadow"
-  | "sampler2DArray"
-  | "sampler2DArrayShadow"
-  | "isampler2D"
-  | "isampler3D"
-  | "isamplerCube"
-  | "isampler2DArray"
-  | "usampler2D"
-  | "usampler3D"
-  | "usamplerCube"
-  | "usampler2DArray";
-
-/**
- * A type-guard for the GLSLType.
- * It returns true if the string matches any string considered a valid
- * `GLSLType`
- **/
-function isGLSLType(value: string): value is GLSLType {
-  switch (value) {
-    case "double":
-    case "float":
-    case "uint":
-    case "int":
-    case "bool":
-    case "vec2":
-    case "vec3":
-    case "vec4":
-    case "dvec2":
-    case "dvec3":
-    case "dvec4":
-    case "uvec2":
-    case "uvec3":
-    case "uvec4":
-    case "ivec2":
-    case "ivec3":
-    case "ivec4":
-    case "bvec2":
-    case "bvec3":
-    case "bvec4":
-    case "mat2":
-    case "mat3":
-    case "mat4":
-    case "mat2x2":
-    case "mat2x3":
-    case "mat2x4":
-    case "mat3x2":
-    case "mat3x3":
-    case "mat3x4":
-    case "mat4x2":
-    case "mat4x3":
-    case "mat4x4":
-    case "sampler2D":
-    case "sampler3D":
-    case "samplerCube":
-    case "samplerCubeShadow":
-    case "sampler2DShadow":
-    case "sampler2DArray":
-    case "sampler2DArrayShadow":
-    case "isampler2D":
-    case "isampler3D":
-    case "isamplerCube":
-    case "isampler2DArray":
-    case "usampler2D":
-    case "usampler3D":
-    case "usamplerCube":
-    case "usampler2DArray":
-      return true;
-    default:
-      return false;
+ * Reports a problem found on the tokens of a statement, i.e. a missing ";".
+ * It throws an exception, or adds an error diagnostic to the `source`
+ * diagnostics list when recovering from errors.
+ */
+function reportSyntaxError(
+  code: string,
+  message: string,
+  token: Token,
+  source: SourceContext,
+) {
+  if (!source.recover) {
+    throw new Error(message);
   }
+  source.diagnostics.push({
+    severity: "error",
+    code,
+    message,
+    range: {
+      start: source.positionAt(token.start),
+      end: source.positionAt(token.end),
+    },
+  });
+}
+
+/**
+ * Reports a variable that uses a struct that is not declared on the shader.
+ * It throws an exception, or adds an error diagnostic to the `source`
+ * diagnostics list when recovering from errors.
+ */
+function reportUnknownStruct(
+  variable: Partial<GLSLVariable>,
+  source: SourceContext,
+) {
+  const message =
+    `Unknown struct "${variable.structName}" used by "${variable.name}"`;
+  if (!source.recover) {
+    throw new Error(message);
+  }
+  source.diagnostics.push({
+    severity: "error",
+    code: "unknown-struct",
+    message,
+    range: variable.range || {
+      start: source.positionAt(0),
+      end: source.positionAt(0),
+    },
+  });
+}
+
+/**
+ * Sets the `struct` attribute of every variable that uses a struct (block
+ * members included) to the declaration of its struct. The struct declarations
+ * are on the `variables` list and are resolved too, this way the members of
+ * nested structs are available through their `struct` attribute.
+ */
+function resolveStructTypes(variables: GLSLVariable[]) {
+  // The struct declarations by name (the first one wins)
+  const structs = new Map<string, GLSLVariable>();
+  for (const v of variables) {
+    if (v.qualifier === "struct" && !structs.has(v.name)) {
+      structs.set(v.name, v);
+    }
+  }
+  const resolve = (variable: GLSLVariable) => {
+    if (variable.type === "struct" && !variable.struct) {
+      variable.struct = structs.get(variable.structName as string) || null;
+    } else if (variable.struct) {
+      // The inline structs are already set (they are not on the list)
+      resolve(variable.struct);
+    }
+    (variable.block || []).forEach(resolve);
+  };
+  variables.forEach(resolve);
 }
 
 /**
@@ -848,12 +2272,13 @@ export interface InputGLSLVariable extends GLSLVariable {
 }
 
 /**
- * This function returns true if a GLSLVariable is not an "out" variable.
+ * This function returns true if a GLSLVariable is an "in" or a "uniform"
+ * variable. The constants, globals and structs are not inputs.
  **/
 export function isInputVariable(
   variable: GLSLVariable,
 ): variable is InputGLSLVariable {
-  return variable.qualifier !== "out";
+  return variable.qualifier === "in" || variable.qualifier === "uniform";
 }
 
 /**
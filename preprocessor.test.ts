@@ -0,0 +1,152 @@
+// Copyright 2021 Hugo Daniel Henriques Oliveira Gomes. All rights reserved.
+// Licensed under the EUPL
+import {
+  createOriginalOffsetLocator,
+  originalOffset,
+  preprocess,
+} from "./preprocessor.ts";
+import { assertEquals } from "https://deno.land/std@0.83.0/testing/asserts.ts";
+
+Deno.test(
+  "Removes comments and directives keeping the code positions",
+  () => {
+    const code = `#version 300 es
+// in vec4 commented;
+in vec4 a_position; /* multi
+line */ in vec2 a_uv;
+`;
+    const { code: result, edits, version } = preprocess(code);
+    assertEquals(version, 300);
+    assertEquals(edits, []);
+    assertEquals(result.length, code.length);
+    assertEquals(result.split("\n").length, code.split("\n").length);
+    assertEquals(
+      result.indexOf("in vec4 a_position;"),
+      code.indexOf("in vec4 a_position;"),
+    );
+    assertEquals(
+      result.indexOf("in vec2 a_uv;"),
+      code.indexOf("in vec2 a_uv;"),
+    );
+    assertEquals(result.includes("commented"), false);
+    assertEquals(result.includes("#"), false);
+  },
+);
+
+Deno.test(
+  "Evaluates conditional directives with the provided defines",
+  () => {
+    const code = `#version 300 es
+#ifdef USE_SKINNING
+uniform mat4 u_bones;
+#else
+uniform mat4 u_model;
+#endif
+#if defined(QUALITY) && QUALITY > 1
+in vec3 a_tangent;
+#elif __VERSION__ == 300 && GL_ES
+in vec3 a_normal;
+#endif
+#ifndef USE_SKINNING
+#if 0
+in float a_never;
+#else
+in float a_weight;
+#endif
+#endif
+`;
+    const words = (defines = {}) =>
+      preprocess(code, { defines }).code.match(/\S+/g);
+    assertEquals(
+      words(),
+      ["uniform", "mat4", "u_model;", "in", "vec3", "a_normal;"].concat(
+        ["in", "float", "a_weight;"],
+      ),
+    );
+    assertEquals(
+      words({ USE_SKINNING: "", QUALITY: 2 }),
+      ["uniform", "mat4", "u_bones;", "in", "vec3", "a_tangent;"],
+    );
+  },
+);
+
+Deno.test(
+  "Expands object-like and function-like macros",
+  () => {
+    const code = `#define MAX_BONES 64
+#define COUNT(a, b) ((a) * (b))
+#define LIGHTS COUNT(MAX_LIGHTS, 2)
+uniform mat4 u_bones[MAX_BONES];
+uniform vec4 u_lights[LIGHTS];
+uniform float MAX_BONES_value;
+`;
+    const { code: result, edits, errors } = preprocess(
+      code,
+      { defines: { MAX_LIGHTS: 4 } },
+    );
+    assertEquals(errors, []);
+    assertEquals(result.trim().split("\n").map((line) => line.trim()), [
+      "uniform mat4 u_bones[64];",
+      "uniform vec4 u_lights[((4) * (2))];",
+      "uniform float MAX_BONES_value;",
+    ]);
+    assertEquals(edits.length, 2);
+    // Offsets after the expansions map back to the original code
+    const declaration = "uniform float MAX_BONES_value;";
+    assertEquals(
+      originalOffset(result.indexOf(declaration), edits),
+      code.indexOf(declaration),
+    );
+  },
+);
+
+Deno.test(
+  "Pastes the tokens of the ## operator",
+  () => {
+    const { code, errors } = preprocess(`#define PREFIX u_
+#define DECL(n) uniform float u_##n;
+#define NAME(a, b) a ## b
+#define SCALE 2
+DECL(time)
+vec2 NAME(PREFIX, size) = vec2(NAME(1, SCALE));
+`);
+    assertEquals(errors, []);
+    assertEquals(code.trim().split("\n").map((line) => line.trim()), [
+      "uniform float u_time;",
+      "vec2 PREFIXsize = vec2(1SCALE);",
+    ]);
+  },
+);
+
+Deno.test(
+  "Reports unbalanced conditional directives",
+  () => {
+    const { errors } = preprocess(`#else
+in vec4 a_position;
+#if 1
+`);
+    assertEquals(errors.map((error) => error.code), [
+      "unexpected-directive",
+      "unterminated-condition",
+    ]);
+    assertEquals(errors[0].offset, 0);
+    assertEquals(errors[0].length, 5);
+  },
+);
+
+Deno.test(
+  "Locates the original offsets before, inside and after the edits",
+  () => {
+    const edits = [
+      { offset: 5, from: 3, to: 6 },
+      { offset: 20, from: 10, to: 2 },
+      { offset: 30, from: 4, to: 0 },
+    ];
+    const offsets = [2, 7, 10, 12, 21, 25, 30];
+    const expected = [2, 7, 8, 9, 18, 30, 39];
+    const locate = createOriginalOffsetLocator(edits);
+    assertEquals(offsets.map(locate), expected);
+    assertEquals(offsets.map((o) => originalOffset(o, edits)), expected);
+    assertEquals(createOriginalOffsetLocator([])(12), 12);
+  },
+);
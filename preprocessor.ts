@@ -0,0 +1,687 @@
+// Copyright 2021 Hugo Daniel Henriques Oliveira Gomes. All rights reserved.
+// Licensed under the EUPL
+/**
+ * This function runs the GLSL preprocessor on a shader code string.
+ *
+ * It removes the comments, evaluates the conditional directives (#if, #ifdef,
+ * #ifndef, #elif, #else, #endif) and expands the object-like and function-like
+ * macros declared with #define (and removed with #undef). The `defines` option
+ * sets the macros that are considered to be defined before the code starts,
+ * their values are the macro replacement strings.
+ *
+ * The macros `__VERSION__` and `GL_ES` are always defined. `__VERSION__` is
+ * the number set on the `#version` directive (100 if there is none, as the
+ * spec says) and `GL_ES` is 1.
+ *
+ * The returned code keeps the positions of the original code as much as
+ * possible: comments, directives and the lines on the inactive conditional
+ * groups are replaced by whitespace of the same length. Macro expansions
+ * change the length of the code, each one of them is recorded on the returned
+ * `edits` array. The `originalOffset()` function can then be used to find the
+ * offset of the original code that corresponds to an offset of the returned
+ * code.
+ *
+ * Problems found (like an #else without an #if) are placed on the returned
+ * `errors` array; the preprocessor keeps going after them.
+ *
+ * @param code the string with the GLSL shader code to preprocess
+ * @param options the macros to consider as defined before the code starts
+ */
+export function preprocess(
+  code: string,
+  { defines = {} }: PreprocessOptions = {},
+): PreprocessResult {
+  const errors: PreprocessorError[] = [];
+  const edits: TextEdit[] = [];
+  const directives: PreprocessorDirective[] = [];
+  // The version is needed before anything else because of `__VERSION__`
+  const version = readVersion(code);
+  // The macros currently defined, by name.
+  const macros = new Map<string, Macro>();
+  macros.set("__VERSION__", { parameters: null, body: String(version) });
+  macros.set("GL_ES", { parameters: null, body: "1" });
+  for (const [name, value] of Object.entries(defines)) {
+    macros.set(name, { parameters: null, body: String(value) });
+  }
+  // Comments are replaced by whitespace before anything else, they can have
+  // directives or macro names in them that must be ignored.
+  const lines = removeComments(code).split("\n");
+  // The stack of the conditional groups (#if ... #endif) being read, the
+  // last one is the innermost group.
+  const conditions: Condition[] = [];
+  // The lines of code that are not directives are accumulated here until a
+  // directive shows up, then they are expanded all at once (this allows macro
+  // invocations to have their arguments in several lines).
+  let chunk: string[] = [];
+  // The offset of the first line in the chunk
+  let chunkOffset = 0;
+  // The final code, each entry is a line or an expanded chunk of lines.
+  const result: string[] = [];
+  // The length of the `result` strings joined, used to know the offsets of the
+  // macro expansions on the final code.
+  let resultLength = 0;
+  const flushChunk = () => {
+    if (chunk.length === 0) return;
+    const text = expandMacros(
+      chunk.join("\n"),
+      macros,
+      (edit) => edits.push({ ...edit, offset: resultLength + edit.offset }),
+      (message, offset, length) =>
+        errors.push({
+          code: "invalid-macro-call",
+          message,
+          offset: chunkOffset + offset,
+          length,
+        }),
+    );
+    result.push(text);
+    resultLength += text.length + 1; // +1 for the "\n" that joins the lines
+    chunk = [];
+  };
+  let offset = 0;
+  for (let i = 0; i < lines.length; i++) {
+    const lineOffset = offset;
+    let line = lines[i];
+    offset += line.length + 1;
+    const isActive = conditions.every((c) => c.isActive);
+    if (!line.trim().startsWith("#")) {
+      // A line of code, keep it only if it is on an active group
+      if (isActive) {
+        if (chunk.length === 0) chunkOffset = lineOffset;
+        chunk.push(line);
+      } else {
+        flushChunk();
+        result.push(blank(line));
+        resultLength += line.length + 1;
+      }
+      continue;
+    }
+    // A directive can continue on the next lines if it ends with "\"
+    const directiveLines = [line];
+    while (line.endsWith("\\") && i + 1 < lines.length) {
+      line = lines[++i];
+      offset += line.length + 1;
+      directiveLines.push(line);
+    }
+    flushChunk();
+    for (const l of directiveLines) {
+      result.push(blank(l));
+      resultLength += l.length + 1;
+    }
+    const directive = directiveLines.map((l) => l.replace(/\\$/, "")).join(" ")
+      .trim().slice(1).trim();
+    const name = (directive.match(/^\w+/) || [""])[0];
+    const content = directive.slice(name.length).trim();
+    // The directive starts at its "#" (after the indentation of the line)
+    const start = lineOffset + directiveLines[0].search(/\S/);
+    directives.push({
+      name,
+      content,
+      offset: start,
+      length: offset - start - 1,
+    });
+    const report = (code: string, message: string) =>
+      errors.push({
+        code,
+        message,
+        offset: lineOffset,
+        length: offset - lineOffset - 1,
+      });
+    switch (name) {
+      case "ifdef":
+      case "ifndef":
+      case "if": {
+        let value = false;
+        if (isActive) {
+          value = name === "if"
+            ? evaluateCondition(content, macros, report)
+            : macros.has(content.split(/\s/)[0]) === (name === "ifdef");
+        }
+        conditions.push({ isActive: value, wasTaken: value, hasElse: false });
+        break;
+      }
+      case "elif":
+      case "else": {
+        const condition = conditions[conditions.length - 1];
+        if (!condition) {
+          report("unexpected-directive", `#${name} without #if`);
+          break;
+        }
+        if (condition.hasElse) {
+          report("unexpected-directive", `#${name} after #else`);
+        }
+        condition.hasElse = condition.hasElse || name === "else";
+        // The group is active if none of the previous ones was active and
+        // all the outer groups are active
+        const isParentActive = conditions.slice(0, -1).every((c) => c.isActive);
+        condition.isActive = isParentActive && !condition.wasTaken &&
+          (name === "else" || evaluateCondition(content, macros, report));
+        condition.wasTaken = condition.wasTaken || condition.isActive;
+        break;
+      }
+      case "endif":
+        if (!conditions.pop()) {
+          report("unexpected-directive", "#endif without #if");
+        }
+        break;
+      case "define":
+        if (isActive) {
+          const macro = readMacroDefinition(content);
+          if (macro) {
+            macros.set(macro.name, macro);
+          } else {
+            report("invalid-directive", `Invalid #define: ${content}`);
+          }
+        }
+        break;
+      case "undef":
+        if (isActive) macros.delete(content.split(/\s/)[0]);
+        break;
+      case "error":
+        if (isActive) report("error-directive", `#error ${content}`);
+        break;
+      default:
+        // #version, #extension, #pragma and #line do not change the code
+        break;
+    }
+  }
+  flushChunk();
+  if (conditions.length > 0) {
+    errors.push({
+      code: "unterminated-condition",
+      message: "Missing #endif",
+      offset: code.length,
+      length: 0,
+    });
+  }
+  return { code: result.join("\n"), edits, version, errors, directives };
+}
+
+/**
+ * The options that can be passed to the `preprocess()` function.
+ */
+export interface PreprocessOptions {
+  // The macros to consider as defined, with their replacement values.
+  // i.e. `{ MAX_LIGHTS: 4, USE_SKINNING: "" }`
+  defines?: Record<string, string | number>;
+}
+
+/**
+ * The result of `preprocess()`.
+ */
+export interface PreprocessResult {
+  // The code with the comments and directives removed and macros expanded
+  code: string;
+  // The replacements made by the macro expansions, in the order they show up
+  // on the resulting `code`
+  edits: TextEdit[];
+  // The number set on the `#version` directive (100 if there is none)
+  version: number;
+  // The problems found while preprocessing
+  errors: PreprocessorError[];
+  // All the directives of the code, in the order they show up (the ones on the
+  // inactive conditional groups included)
+  directives: PreprocessorDirective[];
+}
+
+/**
+ * A directive line (or lines, when they end with "\") of the code. The
+ * `offset` and `length` are on the original code.
+ */
+export interface PreprocessorDirective {
+  // The directive name, i.e. "define" for `#define PI 3.14` (it is an empty
+  // string for the null directive, a line with only "#")
+  name: string;
+  // The text after the name, without comments and with the continued lines
+  // joined by a space, i.e. "PI 3.14"
+  content: string;
+  offset: number;
+  length: number;
+}
+
+/**
+ * A problem found by the preprocessor. The `offset` and `length` are on the
+ * original code.
+ */
+export interface PreprocessorError {
+  code: string;
+  message: string;
+  offset: number;
+  length: number;
+}
+
+/**
+ * A replacement done on a code string: the `from` chars starting at `offset`
+ * were replaced by `to` chars.
+ */
+export interface TextEdit {
+  offset: number;
+  from: number;
+  to: number;
+}
+
+/**
+ * Returns the offset that the `offset` (of a string where the `edits` were
+ * done) had before the edits were done. The `edits` are expected to be in the
+ * order they were done on the string.
+ *
+ * Offsets inside a replaced text are placed inside the text that was there
+ * before the replacement.
+ */
+export function originalOffset(offset: number, edits: TextEdit[]): number {
+  return createOriginalOffsetLocator(edits)(offset);
+}
+
+/**
+ * Creates a function that works like `originalOffset()` for the `edits`. The
+ * length change of the edits is summed once, and the last edit before the
+ * offset is looked up with a binary search on each call. Use it to translate
+ * many offsets of the same string.
+ */
+export function createOriginalOffsetLocator(
+  edits: TextEdit[],
+): (offset: number) => number {
+  // The sum of the length changes of each edit and of all the edits before it
+  const shifts: number[] = [];
+  let shift = 0;
+  for (const edit of edits) {
+    shift += edit.from - edit.to;
+    shifts.push(shift);
+  }
+  return (offset: number): number => {
+    // Find the last edit that starts before (or at) the offset, the edits that
+    // happen after the offset do not change its position
+    let low = -1;
+    let high = edits.length - 1;
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if (edits[middle].offset <= offset) low = middle;
+      else high = middle - 1;
+    }
+    if (low < 0) return offset;
+    const edit = edits[low];
+    if (edit.offset + edit.to > offset) {
+      // The offset is inside the replacement, keep it inside the replaced text
+      const before = low > 0 ? shifts[low - 1] : 0;
+      return edit.offset + before + Math.min(offset - edit.offset, edit.from);
+    }
+    return offset + shifts[low];
+  };
+}
+
+/**
+ * A macro declared with #define. Object-like macros have `parameters` set to
+ * null, function-like macros have the list of their parameter names.
+ */
+interface Macro {
+  parameters: string[] | null;
+  body: string;
+}
+
+/**
+ * The state of a conditional group (#if ... #endif) being read.
+ */
+interface Condition {
+  // If the lines of the current branch of the group are to be kept
+  isActive: boolean;
+  // If one of the branches of this group was already active
+  wasTaken: boolean;
+  // If the #else branch was already found
+  hasElse: boolean;
+}
+
+/**
+ * Reads the number on the `#version` directive of the code. The spec
+ * says that a shader without the directive is a version 100 shader.
+ */
+function readVersion(code: string): number {
+  const match = code.match(/^\s*#\s*version\s+(\d+)/m);
+  return match ? Number(match[1]) : 100;
+}
+
+/**
+ * Returns the code with the contents of all the comments replaced by spaces.
+ * The new lines inside the multi-line comments are kept, this way the lines of
+ * code stay in the same place.
+ */
+function removeComments(code: string): string {
+  let result = "";
+  let i = 0;
+  while (i < code.length) {
+    const start = i;
+    if (code.startsWith("//", i)) {
+      // A single line comment ends at the end of the line
+      const end = code.indexOf("\n", i);
+      i = end === -1 ? code.length : end;
+      result += blank(code.slice(start, i));
+    } else if (code.startsWith("/*", i)) {
+      const end = code.indexOf("*/", i + 2);
+      i = end === -1 ? code.length : end + 2;
+      result += code.slice(start, i).replace(/[^\n]/g, " ");
+    } else {
+      // Copy everything up until the next possible comment
+      const next = code.indexOf("/", i + 1);
+      i = next === -1 ? code.length : next;
+      result += code.slice(start, i);
+    }
+  }
+  return result;
+}
+
+/**
+ * Reads the contents of a #define directive (without the "define" word) into
+ * a named `Macro`. A macro is function-like when its name is immediately
+ * followed by a "(". Returns null if the definition has no valid name.
+ */
+function readMacroDefinition(
+  content: string,
+): (Macro & { name: string }) | null {
+  const match = content.match(/^([A-Za-z_]\w*)(\(([^)]*)\))?/);
+  if (!match) return null;
+  const [definition, name, parametersList, parameters] = match;
+  return {
+    name,
+    parameters: parametersList
+      ? parameters.split(",").map((p) => p.trim()).filter((p) => p.length > 0)
+      : null,
+    body: content.slice(definition.length).trim(),
+  };
+}
+
+/**
+ * Expands all the macros found on the `text`. Each macro found is replaced by
+ * its body with its own macros expanded too. A macro is not expanded again
+ * inside its own expansion (this is what prevents infinite recursion).
+ *
+ * The `onEdit` function is called for each replacement done on the `text`,
+ * with the offset on the returned string. The `onError` is called with the
+ * offset on the `text` string of macro calls that could not be read.
+ */
+function expandMacros(
+  text: string,
+  macros: Map<string, Macro>,
+  onEdit: (edit: TextEdit) => void = () => {},
+  onError: (message: string, offset: number, length: number) => void = () => {},
+  disabled: Set<string> = new Set(),
+): string {
+  // Identifiers are the possible macro names, numbers are matched so that
+  // things like the "e10" in "1e10" are not taken as identifiers.
+  const tokens = /[A-Za-z_]\w*|\d[\w.]*/g;
+  let result = "";
+  let last = 0; // The index of the text that was already copied to result
+  let match;
+  while ((match = tokens.exec(text)) !== null) {
+    const name = match[0];
+    const macro = macros.get(name);
+    if (!macro || disabled.has(name)) continue;
+    const start = match.index;
+    let end = start + name.length;
+    let body = macro.body;
+    if (macro.parameters) {
+      // Function-like macros are only expanded when they are called
+      const call = readMacroArguments(text, end);
+      if (!call) continue;
+      // A call like "MACRO()" has no arguments (and not one empty argument)
+      const isEmptyCall = call.arguments.length === 1 &&
+        call.arguments[0].trim() === "";
+      const argumentsCount = isEmptyCall ? 0 : call.arguments.length;
+      if (argumentsCount !== macro.parameters.length) {
+        onError(
+          `Wrong number of arguments for the macro ${name}`,
+          start,
+          call.end - start,
+        );
+      }
+      end = call.end;
+      // Arguments are fully expanded before being placed in the body (but
+      // not the ones pasted with "##")
+      const rawValues = call.arguments.map((a) => a.trim());
+      const values = rawValues.map((a) =>
+        expandMacros(a, macros, undefined, undefined, disabled)
+      );
+      body = replaceParameters(body, macro.parameters, values, rawValues);
+    }
+    // The "##" operator pastes the tokens around it into a single token, i.e.
+    // "u_ ## time" is "u_time"
+    body = body.replace(/\s*##\s*/g, "");
+    const expansion = expandMacros(
+      body,
+      macros,
+      undefined,
+      undefined,
+      new Set([...disabled, name]),
+    );
+    result += text.slice(last, start);
+    onEdit({
+      offset: result.length,
+      from: end - start,
+      to: expansion.length,
+    });
+    result += expansion;
+    last = end;
+    tokens.lastIndex = end;
+  }
+  return result + text.slice(last);
+}
+
+/**
+ * Reads the arguments of a function-like macro call that starts at the
+ * `start` index of the `text` (right after the macro name). Returns null if
+ * there is no "(" after the name. The arguments are split by the commas that
+ * are not inside nested parenthesis.
+ */
+function readMacroArguments(
+  text: string,
+  start: number,
+): { arguments: string[]; end: number } | null {
+  let i = start;
+  while (i < text.length && /\s/.test(text[i])) i++;
+  if (text[i] !== "(") return null;
+  const args: string[] = [];
+  let depth = 0;
+  let argumentStart = i + 1;
+  for (i = i + 1; i < text.length; i++) {
+    const char = text[i];
+    if (char === "(") depth++;
+    else if (char === ")" && depth > 0) depth--;
+    else if ((char === "," || char === ")") && depth === 0) {
+      args.push(text.slice(argumentStart, i));
+      argumentStart = i + 1;
+      if (char === ")") return { arguments: args, end: i + 1 };
+    }
+  }
+  // The call is not closed
+  return null;
+}
+
+/**
+ * Replaces the `parameters` names found on the macro `body` by their `values`.
+ * The parameters that are an operand of the "##" operator are replaced by
+ * their `rawValues` (the arguments as they are written, not expanded).
+ */
+function replaceParameters(
+  body: string,
+  parameters: string[],
+  values: string[],
+  rawValues: string[],
+): string {
+  return body.replace(/[A-Za-z_]\w*|\d[\w.]*/g, (word, offset: number) => {
+    const index = parameters.indexOf(word);
+    if (index < 0 || index >= values.length) return word;
+    const isPasted = /##\s*$/.test(body.slice(0, offset)) ||
+      /^\s*##/.test(body.slice(offset + word.length));
+    return isPasted ? rawValues[index] : values[index];
+  });
+}
+
+/**
+ * Evaluates the expression of an #if or #elif directive. The `defined`
+ * operator is evaluated first, then the macros are expanded and the
+ * identifiers left are considered to be 0 (like the spec says).
+ *
+ * Returns false and reports an error if the expression is not valid.
+ */
+function evaluateCondition(
+  expression: string,
+  macros: Map<string, Macro>,
+  report: (code: string, message: string) => void,
+): boolean {
+  const withDefined = expression.replace(
+    /\bdefined\s*(\(\s*([A-Za-z_]\w*)\s*\)|([A-Za-z_]\w*))/g,
+    (_match, _operand, inParenthesis, withoutParenthesis) =>
+      macros.has(inParenthesis || withoutParenthesis) ? "1" : "0",
+  );
+  const expanded = expandMacros(withDefined, macros).replace(
+    /[A-Za-z_]\w*/g,
+    (word) => /^\d/.test(word) ? word : "0",
+  );
+  try {
+    return evaluateExpression(expanded) !== 0;
+  } catch (error) {
+    report(
+      "invalid-condition",
+      `Invalid preprocessor condition "${expression}": ${
+        (error as Error).message
+      }`,
+    );
+    return false;
+  }
+}
+
+/**
+ * The binary operators allowed on preprocessor conditions, by precedence
+ * (the first ones are evaluated last).
+ */
+const binaryOperators: string[][] = [
+  ["||"],
+  ["&&"],
+  ["|"],
+  ["^"],
+  ["&"],
+  ["==", "!="],
+  ["<=", ">=", "<", ">"],
+  ["<<", ">>"],
+  ["+", "-"],
+  ["*", "/", "%"],
+];
+
+/**
+ * Evaluates an integer expression with the C-like operators allowed by the
+ * preprocessor. It throws an exception if the expression is not valid.
+ *
+ * The parser also uses it to evaluate the constant expressions of the array
+ * sizes and of the constants initializers.
+ */
+export function evaluateExpression(expression: string): number {
+  const tokens = expression.match(
+    /0[xX][0-9a-fA-F]+[uU]?|\d+[uU]?|\|\||&&|==|!=|<=|>=|<<|>>|[-+*/%<>&|^!~()]|\S/g,
+  ) || [];
+  let position = 0;
+  const readBinary = (level: number): number => {
+    if (level >= binaryOperators.length) return readUnary();
+    let value = readBinary(level + 1);
+    while (binaryOperators[level].includes(tokens[position])) {
+      const operator = tokens[position++];
+      value = applyOperator(operator, value, readBinary(level + 1));
+    }
+    return value;
+  };
+  const readUnary = (): number => {
+    const token = tokens[position++];
+    switch (token) {
+      case "+":
+        return readUnary();
+      case "-":
+        return -readUnary();
+      case "~":
+        return ~readUnary();
+      case "!":
+        return readUnary() === 0 ? 1 : 0;
+      case "(": {
+        const value = readBinary(0);
+        if (tokens[position++] !== ")") throw new Error("missing )");
+        return value;
+      }
+      default: {
+        if (typeof token === "undefined") {
+          throw new Error("unexpected end of expression");
+        }
+        const value = parseIntegerLiteral(token);
+        if (isNaN(value)) throw new Error(`unexpected "${token}"`);
+        return value;
+      }
+    }
+  };
+  const value = readBinary(0);
+  if (position < tokens.length) {
+    throw new Error(`unexpected "${tokens[position]}"`);
+  }
+  return value;
+}
+
+/**
+ * Reads a GLSL integer literal: decimal, octal (starting with 0) or
+ * hexadecimal (starting with 0x), with an optional "u" suffix.
+ * Returns NaN if the string is not an integer literal.
+ */
+export function parseIntegerLiteral(literal: string): number {
+  const digits = literal.replace(/[uU]$/, "");
+  if (/^0[xX][0-9a-fA-F]+$/.test(digits)) return parseInt(digits.slice(2), 16);
+  if (/^0[0-7]+$/.test(digits)) return parseInt(digits.slice(1), 8);
+  if (/^\d+$/.test(digits)) return parseInt(digits, 10);
+  return NaN;
+}
+
+/**
+ * Calculates the result of a binary operator with integer arithmetic.
+ */
+function applyOperator(operator: string, left: number, right: number) {
+  switch (operator) {
+    case "||":
+      return left !== 0 || right !== 0 ? 1 : 0;
+    case "&&":
+      return left !== 0 && right !== 0 ? 1 : 0;
+    case "|":
+      return left | right;
+    case "^":
+      return left ^ right;
+    case "&":
+      return left & right;
+    case "==":
+      return left === right ? 1 : 0;
+    case "!=":
+      return left !== right ? 1 : 0;
+    case "<=":
+      return left <= right ? 1 : 0;
+    case ">=":
+      return left >= right ? 1 : 0;
+    case "<":
+      return left < right ? 1 : 0;
+    case ">":
+      return left > right ? 1 : 0;
+    case "<<":
+      return left << right;
+    case ">>":
+      return left >> right;
+    case "+":
+      return left + right;
+    case "-":
+      return left - right;
+    case "*":
+      return left * right;
+    case "/":
+    case "%":
+      if (right === 0) throw new Error("division by zero");
+      return operator === "/" ? Math.trunc(left / right) : left % right;
+    default:
+      throw new Error(`unknown operator "${operator}"`);
+  }
+}
+
+/**
+ * Returns a string of spaces with the same length as the `text` string. Used
+ * to remove contents of the code without changing the position of the rest.
+ */
+function blank(text: string) {
+  return " ".repeat(text.length);
+}
@@ -0,0 +1,103 @@
+// Copyright 2021 Hugo Daniel Henriques Oliveira Gomes. All rights reserved.
+// Licensed under the EUPL
+import { parse } from "./parser.ts";
+import { std140Layout } from "./std140.ts";
+import {
+  assertEquals,
+  assertThrows,
+} from "https://deno.land/std@0.83.0/testing/asserts.ts";
+
+Deno.test(
+  "Calculates the std140 offsets of scalars, vectors, matrices and arrays",
+  () => {
+    const variables = parse(`#version 300 es
+    layout(std140) uniform ExampleBlock
+    {
+        float value;
+        vec3  vector;
+        mat4  matrix;
+        float values[3];
+        bool  boolean;
+        int   integer;
+        mat3  normals;
+        vec2  uv;
+    };
+    `);
+    const layout = std140Layout(variables[0], variables);
+    assertEquals(layout.name, "ExampleBlock");
+    assertEquals(
+      layout.members.map((
+        { variable, offset, size, arrayStride, matrixStride },
+      ) => [variable.name, offset, size, arrayStride, matrixStride]),
+      [
+        ["value", 0, 4, 0, 0],
+        ["vector", 16, 12, 0, 0],
+        ["matrix", 32, 64, 0, 16],
+        ["values", 96, 48, 16, 0],
+        ["boolean", 144, 4, 0, 0],
+        ["integer", 148, 4, 0, 0],
+        ["normals", 160, 48, 0, 16],
+        ["uv", 208, 8, 0, 0],
+      ],
+    );
+    assertEquals(layout.size, 224);
+  },
+);
+
+Deno.test(
+  "Calculates the std140 layout of structs and row major matrices",
+  () => {
+    const variables = parse(`#version 300 es
+    struct Light {
+      vec3 color;
+      float intensity;
+      mat3 transform;
+    };
+    layout(row_major) uniform;
+    layout(std140) uniform Lights
+    {
+      Light lights[2];
+      vec2 uv;
+      mat2x3 rows;
+      layout(column_major) mat2x3 columns;
+    };
+    `);
+    const layout = std140Layout(variables[0], variables);
+    const [lights, uv, rows, columns] = layout.members;
+    const { offset, size, arrayStride } = lights;
+    assertEquals([offset, size, arrayStride], [0, 128, 64]);
+    assertEquals(
+      lights.members?.map(({ offset, size }) => [offset, size]),
+      [[0, 12], [12, 4], [16, 48]],
+    );
+    assertEquals(lights.members?.[2].isRowMajor, true);
+    assertEquals([uv.offset, uv.size], [128, 8]);
+    // A row major mat2x3 is 3 rows of vec2
+    assertEquals(
+      [rows.offset, rows.size, rows.matrixStride, rows.isRowMajor],
+      [144, 48, 16, true],
+    );
+    // A column major mat2x3 is 2 columns of vec3
+    assertEquals(
+      [columns.offset, columns.size, columns.isRowMajor],
+      [192, 32, false],
+    );
+    assertEquals(layout.size, 224);
+  },
+);
+
+Deno.test(
+  "Throws when the block uses an unknown struct",
+  () => {
+    const variables = parse(`#version 300 es
+    struct Material { vec3 color; };
+    uniform Materials { Material materials[2]; };
+    `);
+    assertThrows(
+      () => std140Layout(variables[0], []),
+      Error,
+      'Unknown struct "Material"',
+    );
+    assertThrows(() => std140Layout(variables[1], variables));
+  },
+);
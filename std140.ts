@@ -0,0 +1,276 @@
+// Copyright 2021 Hugo Daniel Henriques Oliveira Gomes. All rights reserved.
+// Licensed under the EUPL
+import { BlockLayout, effectiveBlockLayout, GLSLVariable } from "./parser.ts";
+import { glslTypes, isGLSLType } from "./types.ts";
+
+/**
+ * This function calculates the memory layout of a uniform block according to
+ * the std140 rules (section 2.12.6.4 of the OpenGL ES 3.0 spec).
+ *
+ * It receives a uniform block variable (a `GLSLVariable` with the type
+ * "block") and the list of all the variables returned by `parse()`, this list
+ * is used to find the structs that are used by the block members (through
+ * their `structName`).
+ *
+ * It returns the layout of every block member: its byte offset from the start
+ * of the block, its size, its array stride and matrix stride, together with
+ * the total size of the block. Members that use a struct have the layout of
+ * the struct members in them (for the first element, if it is an array).
+ *
+ * The matrices are column major by default, the `row_major` and
+ * `column_major` qualifiers are read from the block and member layouts.
+ *
+ * It throws an exception if the block uses an unknown struct, or if it has
+ * types that are not allowed in uniform blocks (samplers).
+ *
+ * @param block the uniform block variable to calculate the layout of
+ * @param variables all the variables returned by `parse()` (with the structs)
+ */
+export function std140Layout(
+  block: GLSLVariable,
+  variables: GLSLVariable[] = [],
+): Std140BlockLayout {
+  if (block.qualifier !== "uniform" || block.type !== "block" || !block.block) {
+    throw new Error(`The variable "${block.name}" is not a uniform block`);
+  }
+  const context: LayoutContext = {
+    structs: variables.filter((v) => v.qualifier === "struct"),
+    layout: effectiveBlockLayout(block.layoutQualifiers),
+  };
+  const { members, end } = layoutMembers(block.block, 0, context);
+  return {
+    name: block.name,
+    // The block size is padded to a multiple of a vec4 (like the WebGL
+    // implementations report it in UNIFORM_BLOCK_DATA_SIZE)
+    size: roundUp(end, 16),
+    members,
+  };
+}
+
+/**
+ * The std140 layout of a uniform block.
+ */
+export interface Std140BlockLayout {
+  // The name of the uniform block
+  name: string;
+  // The total size, in bytes, of the block
+  size: number;
+  // The layout of each variable declared in the block (in the same order)
+  members: Std140MemberLayout[];
+}
+
+/**
+ * The std140 layout of a variable declared in a uniform block (or in a struct
+ * used by a uniform block).
+ */
+export interface Std140MemberLayout {
+  // The variable declaration, as returned by `parse()`
+  variable: GLSLVariable;
+  // The offset, in bytes, from the start of the block
+  offset: number;
+  // The size, in bytes, of the variable (of all the elements if it is an array)
+  size: number;
+  // The distance, in bytes, between two elements of an array (0 if the
+  // variable is not an array). Arrays of arrays are laid out as a single array
+  // with all their elements, this is the distance between the innermost ones.
+  arrayStride: number;
+  // The distance, in bytes, between two columns (or rows, if it is row major)
+  // of a matrix (0 if the variable is not a matrix)
+  matrixStride: number;
+  // If the matrix is stored by rows instead of columns
+  isRowMajor: boolean;
+  // The layout of the struct members (of the first element if the variable
+  // is an array of structs), or null if the variable is not a struct
+  members: Std140MemberLayout[] | null;
+}
+
+/**
+ * The information shared while calculating the layout of the block members.
+ */
+interface LayoutContext {
+  // The structs declared on the shader
+  structs: GLSLVariable[];
+  // The packing and matrix order of the block (or of an outer member)
+  layout: BlockLayout;
+}
+
+/**
+ * Places the `variables` one after the other starting at the `offset`, each
+ * one is placed at the next offset that respects its alignment.
+ *
+ * Returns their layouts and the offset where the last one ends.
+ */
+function layoutMembers(
+  variables: GLSLVariable[],
+  offset: number,
+  context: LayoutContext,
+): { members: Std140MemberLayout[]; end: number } {
+  const members: Std140MemberLayout[] = [];
+  let end = offset;
+  for (const variable of variables) {
+    const memberContext = {
+      ...context,
+      layout: effectiveBlockLayout(variable.layoutQualifiers, context.layout),
+    };
+    end = roundUp(end, alignmentOf(variable, memberContext));
+    const member = layoutMember(variable, end, memberContext);
+    members.push(member);
+    end += member.size;
+  }
+  return { members, end };
+}
+
+/**
+ * Calculates the layout of a single variable that starts at the `offset`
+ * (which is expected to be already aligned).
+ */
+function layoutMember(
+  variable: GLSLVariable,
+  offset: number,
+  context: LayoutContext,
+): Std140MemberLayout {
+  const isArray = variable.dimensions.length > 0;
+  const layout = {
+    variable,
+    offset,
+    arrayStride: 0,
+    matrixStride: 0,
+    isRowMajor: false,
+    members: null,
+  };
+  if (variable.type === "struct") {
+    // Rule 9: a struct is laid out with its members, and its size is padded
+    // to a multiple of its alignment
+    const struct = findStruct(variable, context.structs);
+    const { members, end } = layoutMembers(struct.block || [], offset, context);
+    const structSize = roundUp(end - offset, alignmentOf(variable, context));
+    return {
+      ...layout,
+      size: structSize * variable.amount,
+      arrayStride: isArray ? structSize : 0,
+      members,
+    };
+  }
+  const shape = readTypeShape(variable);
+  if (shape.columns > 1) {
+    // Rules 5 and 7: a matrix is laid out as an array of column vectors (or
+    // row vectors when it is row major)
+    const isRowMajor = context.layout.matrixOrder === "row_major";
+    const vectors = isRowMajor ? shape.rows : shape.columns;
+    const matrixStride = alignmentOf(variable, context);
+    const matrixSize = vectors * matrixStride;
+    return {
+      ...layout,
+      size: matrixSize * variable.amount,
+      arrayStride: isArray ? matrixSize : 0,
+      matrixStride,
+      isRowMajor,
+    };
+  }
+  // Rules 1, 2, 3 and 4: scalars and vectors take the size of their
+  // components, on arrays each element is aligned to a vec4
+  const elementSize = shape.rows * shape.componentSize;
+  if (isArray) {
+    const arrayStride = alignmentOf(variable, context);
+    return { ...layout, size: arrayStride * variable.amount, arrayStride };
+  }
+  return { ...layout, size: elementSize };
+}
+
+/**
+ * Returns the base alignment, in bytes, of a variable according to the std140
+ * rules.
+ */
+function alignmentOf(variable: GLSLVariable, context: LayoutContext): number {
+  if (variable.type === "struct") {
+    // Rule 9: the alignment of the biggest member, rounded up to a vec4
+    const struct = findStruct(variable, context.structs);
+    const alignments = (struct.block || []).map((member) =>
+      alignmentOf(member, {
+        ...context,
+        layout: effectiveBlockLayout(member.layoutQualifiers, context.layout),
+      })
+    );
+    return roundUp(Math.max(0, ...alignments), 16);
+  }
+  const shape = readTypeShape(variable);
+  if (shape.columns > 1) {
+    // Rules 5 and 7: the alignment of the column (or row) vector, rounded
+    // up to a vec4
+    const components = context.layout.matrixOrder === "row_major"
+      ? shape.columns
+      : shape.rows;
+    return roundUp(vectorAlignment(components, shape.componentSize), 16);
+  }
+  const alignment = vectorAlignment(shape.rows, shape.componentSize);
+  // Rule 4: array elements are aligned to a vec4
+  return variable.dimensions.length > 0 ? roundUp(alignment, 16) : alignment;
+}
+
+/**
+ * Rules 1, 2 and 3: the alignment of a scalar is its size, a two component
+ * vector is aligned to twice that, three and four component vectors are
+ * aligned to four times that.
+ */
+function vectorAlignment(components: number, componentSize: number) {
+  return (components === 1 ? 1 : components === 2 ? 2 : 4) * componentSize;
+}
+
+/**
+ * The number of columns and rows of a GLSL type (vectors are a single column)
+ * and the size, in bytes, of each of its components.
+ */
+export interface TypeShape {
+  columns: number;
+  rows: number;
+  componentSize: number;
+}
+
+/**
+ * Reads the shape of the type of a variable from the `glslTypes` registry.
+ * i.e. "vec3" is a column of 3 rows, "mat2x3" has 2 columns of 3 rows.
+ * Booleans take 4 bytes.
+ *
+ * It throws an exception for sampler types (they have no memory layout).
+ */
+export function readTypeShape(variable: GLSLVariable): TypeShape {
+  const info = isGLSLType(variable.type) ? glslTypes[variable.type] : null;
+  if (!info) {
+    throw new Error(
+      `Unknown type "${variable.type}" used by "${variable.name}"`,
+    );
+  }
+  if (info.isSampler) {
+    throw new Error(
+      `The sampler "${variable.name}" is not allowed in a uniform block`,
+    );
+  }
+  const { columns, rows, byteSize, components } = info;
+  return { columns, rows, componentSize: byteSize / components };
+}
+
+/**
+ * Finds the struct declaration used by a variable (its `struct` when it is
+ * set, or the one with its `structName` on the `structs` declared on the
+ * shader). It throws an exception if the struct is not declared.
+ */
+export function findStruct(
+  variable: GLSLVariable,
+  structs: GLSLVariable[],
+): GLSLVariable {
+  const struct = variable.struct ||
+    structs.find((s) => s.name === variable.structName);
+  if (!struct) {
+    throw new Error(
+      `Unknown struct "${variable.structName}" used by "${variable.name}"`,
+    );
+  }
+  return struct;
+}
+
+/**
+ * Rounds up the `value` to the next multiple of `alignment`.
+ */
+export function roundUp(value: number, alignment: number): number {
+  return alignment > 0 ? Math.ceil(value / alignment) * alignment : value;
+}
@@ -0,0 +1,71 @@
+// Copyright 2021 Hugo Daniel Henriques Oliveira Gomes. All rights reserved.
+// Licensed under the EUPL
+import { isGLSLPrecision, isGLSLType, isQualifier } from "./parser.ts";
+import { glslTypes } from "./types.ts";
+import { assertEquals } from "https://deno.land/std@0.83.0/testing/asserts.ts";
+
+Deno.test(
+  "Has the information of the vectors and matrices",
+  () => {
+    const { vec3, mat2x3, uvec2, bvec4, dvec2 } = glslTypes;
+    assertEquals(
+      [vec3.baseType, vec3.columns, vec3.rows, vec3.components, vec3.byteSize],
+      ["float", 1, 3, 3, 12],
+    );
+    assertEquals([vec3.glType, vec3.glTypeName], [0x8B51, "FLOAT_VEC3"]);
+    assertEquals(vec3.setter, "uniform3fv");
+    assertEquals(
+      [mat2x3.columns, mat2x3.rows, mat2x3.components, mat2x3.byteSize],
+      [2, 3, 6, 24],
+    );
+    assertEquals(mat2x3.setter, "uniformMatrix2x3fv");
+    assertEquals(glslTypes.mat4.setter, "uniformMatrix4fv");
+    assertEquals([uvec2.isInteger, uvec2.setter], [true, "uniform2uiv"]);
+    assertEquals([bvec4.isInteger, bvec4.setter], [false, "uniform4iv"]);
+    assertEquals(
+      [dvec2.byteSize, dvec2.glType, dvec2.setter],
+      [16, null, null],
+    );
+  },
+);
+
+Deno.test(
+  "Has the information of the samplers",
+  () => {
+    const { sampler2DArrayShadow, usamplerCube } = glslTypes;
+    assertEquals(
+      [
+        sampler2DArrayShadow.isSampler,
+        sampler2DArrayShadow.isShadow,
+        sampler2DArrayShadow.isInteger,
+        sampler2DArrayShadow.samplerDimension,
+        sampler2DArrayShadow.glTypeName,
+      ],
+      [true, true, false, "2DArray", "SAMPLER_2D_ARRAY_SHADOW"],
+    );
+    assertEquals(
+      [
+        usamplerCube.baseType,
+        usamplerCube.isShadow,
+        usamplerCube.isInteger,
+        usamplerCube.samplerDimension,
+        usamplerCube.glType,
+        usamplerCube.setter,
+      ],
+      ["uint", false, true, "Cube", 0x8DD4, "uniform1iv"],
+    );
+  },
+);
+
+Deno.test(
+  "Has an entry for every GLSL type",
+  () => {
+    for (const [type, info] of Object.entries(glslTypes)) {
+      assertEquals(isGLSLType(type), true);
+      assertEquals(info.type, type);
+    }
+    assertEquals(isGLSLType("vec5"), false);
+    assertEquals(isGLSLPrecision("mediump"), true);
+    assertEquals(isQualifier("varying"), false);
+  },
+);
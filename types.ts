@@ -0,0 +1,354 @@
+// Copyright 2021 Hugo Daniel Henriques Oliveira Gomes. All rights reserved.
+// Licensed under the EUPL
+
+/**
+ * The possible precision modifier strings of a GLSL variable.
+ * These values were taken from the GLSL 300 spec.
+ **/
+export type GLSLPrecision = "highp" | "mediump" | "lowp";
+export function isGLSLPrecision(value: string): value is GLSLPrecision {
+  return value === "highp" || value == "mediump" || value === "lowp";
+}
+
+/**
+ * The possible "type"'s of a GLSL variable.
+ * These were taken from the spec GLSL 300 spec.
+ **/
+export type GLSLType =
+  | "double"
+  | "float"
+  | "uint"
+  | "int"
+  | "bool"
+  | "vec2"
+  | "vec3"
+  | "vec4"
+  | "dvec2"
+  | "dvec3"
+  | "dvec4"
+  | "uvec2"
+  | "uvec3"
+  | "uvec4"
+  | "ivec2"
+  | "ivec3"
+  | "ivec4"
+  | "bvec2"
+  | "bvec3"
+  | "bvec4"
+  | "mat2"
+  | "mat3"
+  | "mat4"
+  | "mat2x2"
+  | "mat2x3"
+  | "mat2x4"
+  | "mat3x2"
+  | "mat3x3"
+  | "mat3x4"
+  | "mat4x2"
+  | "mat4x3"
+  | "mat4x4"
+  | "sampler2D"
+  | "sampler3D"
+  | "samplerCube"
+  | "samplerCubeShadow"
+  | "sampler2DShadow"
+  | "sampler2DArray"
+  | "sampler2DArrayShadow"
+  | "isampler2D"
+  | "isampler3D"
+  | "isamplerCube"
+  | "isampler2DArray"
+  | "usampler2D"
+  | "usampler3D"
+  | "usamplerCube"
+  | "usampler2DArray";
+
+/**
+ * A type-guard for the GLSLType.
+ * It returns true if the string matches any string considered a valid
+ * `GLSLType`
+ **/
+export function isGLSLType(value: string): value is GLSLType {
+  switch (value) {
+    case "double":
+    case "float":
+    case "uint":
+    case "int":
+    case "bool":
+    case "vec2":
+    case "vec3":
+    case "vec4":
+    case "dvec2":
+    case "dvec3":
+    case "dvec4":
+    case "uvec2":
+    case "uvec3":
+    case "uvec4":
+    case "ivec2":
+    case "ivec3":
+    case "ivec4":
+    case "bvec2":
+    case "bvec3":
+    case "bvec4":
+    case "mat2":
+    case "mat3":
+    case "mat4":
+    case "mat2x2":
+    case "mat2x3":
+    case "mat2x4":
+    case "mat3x2":
+    case "mat3x3":
+    case "mat3x4":
+    case "mat4x2":
+    case "mat4x3":
+    case "mat4x4":
+    case "sampler2D":
+    case "sampler3D":
+    case "samplerCube":
+    case "samplerCubeShadow":
+    case "sampler2DShadow":
+    case "sampler2DArray":
+    case "sampler2DArrayShadow":
+    case "isampler2D":
+    case "isampler3D":
+    case "isamplerCube":
+    case "isampler2DArray":
+    case "usampler2D":
+    case "usampler3D":
+    case "usamplerCube":
+    case "usampler2DArray":
+      return true;
+    default:
+      return false;
+  }
+}
+
+/**
+ * The information about a GLSL type, as found on the `glslTypes` registry.
+ */
+export interface GLSLTypeInfo {
+  // The GLSL type name, i.e. "vec3"
+  type: GLSLType;
+  // The scalar type of each component, i.e. "float" for "vec3" and "mat4".
+  // Samplers have the type of the values they return ("int" for "isampler2D")
+  baseType: GLSLScalarType;
+  // The number of columns (1 for scalars and vectors, 0 for samplers)
+  columns: number;
+  // The number of rows (the number of components of a vector, 0 for samplers)
+  rows: number;
+  // The number of components, columns * rows (i.e. 16 for "mat4")
+  components: number;
+  // The size, in bytes, of the components tightly packed (0 for samplers).
+  // Booleans take 4 bytes, like on the uniform buffers.
+  byteSize: number;
+  isSampler: boolean;
+  // If it is a depth comparison sampler, i.e. "sampler2DShadow"
+  isShadow: boolean;
+  // If its base type is "int" or "uint" (integer samplers included)
+  isInteger: boolean;
+  // The dimensionality of the sampler, or null if it is not a sampler
+  samplerDimension: SamplerDimension | null;
+  // The WebGL enum of the type (as returned by `gl.getActiveUniform()`), or
+  // null for the types that are not available in WebGL ("double")
+  glType: number | null;
+  // The name of the WebGL enum, i.e. "FLOAT_VEC3"
+  glTypeName: string | null;
+  // The name of the `gl.uniform*` function that sets a uniform of this type,
+  // in its array form, i.e. "uniform3fv" or "uniformMatrix4fv"
+  setter: string | null;
+}
+
+/**
+ * The scalar types of the GLSL components.
+ */
+export type GLSLScalarType = "float" | "int" | "uint" | "bool" | "double";
+
+/**
+ * The dimensionality of the GLSL samplers.
+ */
+export type SamplerDimension = "2D" | "3D" | "Cube" | "2DArray";
+
+/**
+ * Creates the information of a scalar, vector or matrix type.
+ */
+function numericType(
+  type: GLSLType,
+  baseType: GLSLScalarType,
+  columns: number,
+  rows: number,
+  glTypeName: string | null,
+  glType: number | null,
+): GLSLTypeInfo {
+  const components = columns * rows;
+  // Booleans are set as integers, and matrices only have float setters
+  const suffix = baseType === "float" ? "f" : baseType === "uint" ? "ui" : "i";
+  let setter: string | null = `uniform${rows}${suffix}v`;
+  if (columns > 1) {
+    const size = columns === rows ? `${columns}` : `${columns}x${rows}`;
+    setter = `uniformMatrix${size}fv`;
+  }
+  return {
+    type,
+    baseType,
+    columns,
+    rows,
+    components,
+    byteSize: components * (baseType === "double" ? 8 : 4),
+    isSampler: false,
+    isShadow: false,
+    isInteger: baseType === "int" || baseType === "uint",
+    samplerDimension: null,
+    glType,
+    glTypeName,
+    setter: baseType === "double" ? null : setter,
+  };
+}
+
+/**
+ * Creates the information of a sampler type. Samplers are set with the
+ * number of their texture unit.
+ */
+function samplerType(
+  type: GLSLType,
+  baseType: GLSLScalarType,
+  samplerDimension: SamplerDimension,
+  glTypeName: string,
+  glType: number,
+): GLSLTypeInfo {
+  return {
+    type,
+    baseType,
+    columns: 0,
+    rows: 0,
+    components: 0,
+    byteSize: 0,
+    isSampler: true,
+    isShadow: type.endsWith("Shadow"),
+    isInteger: baseType === "int" || baseType === "uint",
+    samplerDimension,
+    glType,
+    glTypeName,
+    setter: "uniform1iv",
+  };
+}
+
+/**
+ * The registry with the information of every `GLSLType`. i.e.
+ * `glslTypes.vec3.components` is 3 and `glslTypes.vec3.glTypeName` is
+ * "FLOAT_VEC3".
+ */
+export const glslTypes: Record<GLSLType, GLSLTypeInfo> = {
+  double: numericType("double", "double", 1, 1, null, null),
+  float: numericType("float", "float", 1, 1, "FLOAT", 0x1406),
+  uint: numericType("uint", "uint", 1, 1, "UNSIGNED_INT", 0x1405),
+  int: numericType("int", "int", 1, 1, "INT", 0x1404),
+  bool: numericType("bool", "bool", 1, 1, "BOOL", 0x8B56),
+  vec2: numericType("vec2", "float", 1, 2, "FLOAT_VEC2", 0x8B50),
+  vec3: numericType("vec3", "float", 1, 3, "FLOAT_VEC3", 0x8B51),
+  vec4: numericType("vec4", "float", 1, 4, "FLOAT_VEC4", 0x8B52),
+  dvec2: numericType("dvec2", "double", 1, 2, null, null),
+  dvec3: numericType("dvec3", "double", 1, 3, null, null),
+  dvec4: numericType("dvec4", "double", 1, 4, null, null),
+  uvec2: numericType("uvec2", "uint", 1, 2, "UNSIGNED_INT_VEC2", 0x8DC6),
+  uvec3: numericType("uvec3", "uint", 1, 3, "UNSIGNED_INT_VEC3", 0x8DC7),
+  uvec4: numericType("uvec4", "uint", 1, 4, "UNSIGNED_INT_VEC4", 0x8DC8),
+  ivec2: numericType("ivec2", "int", 1, 2, "INT_VEC2", 0x8B53),
+  ivec3: numericType("ivec3", "int", 1, 3, "INT_VEC3", 0x8B54),
+  ivec4: numericType("ivec4", "int", 1, 4, "INT_VEC4", 0x8B55),
+  bvec2: numericType("bvec2", "bool", 1, 2, "BOOL_VEC2", 0x8B57),
+  bvec3: numericType("bvec3", "bool", 1, 3, "BOOL_VEC3", 0x8B58),
+  bvec4: numericType("bvec4", "bool", 1, 4, "BOOL_VEC4", 0x8B59),
+  mat2: numericType("mat2", "float", 2, 2, "FLOAT_MAT2", 0x8B5A),
+  mat3: numericType("mat3", "float", 3, 3, "FLOAT_MAT3", 0x8B5B),
+  mat4: numericType("mat4", "float", 4, 4, "FLOAT_MAT4", 0x8B5C),
+  mat2x2: numericType("mat2x2", "float", 2, 2, "FLOAT_MAT2", 0x8B5A),
+  mat2x3: numericType("mat2x3", "float", 2, 3, "FLOAT_MAT2x3", 0x8B65),
+  mat2x4: numericType("mat2x4", "float", 2, 4, "FLOAT_MAT2x4", 0x8B66),
+  mat3x2: numericType("mat3x2", "float", 3, 2, "FLOAT_MAT3x2", 0x8B67),
+  mat3x3: numericType("mat3x3", "float", 3, 3, "FLOAT_MAT3", 0x8B5B),
+  mat3x4: numericType("mat3x4", "float", 3, 4, "FLOAT_MAT3x4", 0x8B68),
+  mat4x2: numericType("mat4x2", "float", 4, 2, "FLOAT_MAT4x2", 0x8B69),
+  mat4x3: numericType("mat4x3", "float", 4, 3, "FLOAT_MAT4x3", 0x8B6A),
+  mat4x4: numericType("mat4x4", "float", 4, 4, "FLOAT_MAT4", 0x8B5C),
+  sampler2D: samplerType("sampler2D", "float", "2D", "SAMPLER_2D", 0x8B5E),
+  sampler3D: samplerType("sampler3D", "float", "3D", "SAMPLER_3D", 0x8B5F),
+  samplerCube: samplerType(
+    "samplerCube",
+    "float",
+    "Cube",
+    "SAMPLER_CUBE",
+    0x8B60,
+  ),
+  samplerCubeShadow: samplerType(
+    "samplerCubeShadow",
+    "float",
+    "Cube",
+    "SAMPLER_CUBE_SHADOW",
+    0x8DC5,
+  ),
+  sampler2DShadow: samplerType(
+    "sampler2DShadow",
+    "float",
+    "2D",
+    "SAMPLER_2D_SHADOW",
+    0x8B62,
+  ),
+  sampler2DArray: samplerType(
+    "sampler2DArray",
+    "float",
+    "2DArray",
+    "SAMPLER_2D_ARRAY",
+    0x8DC1,
+  ),
+  sampler2DArrayShadow: samplerType(
+    "sampler2DArrayShadow",
+    "float",
+    "2DArray",
+    "SAMPLER_2D_ARRAY_SHADOW",
+    0x8DC4,
+  ),
+  isampler2D: samplerType("isampler2D", "int", "2D", "INT_SAMPLER_2D", 0x8DCA),
+  isampler3D: samplerType("isampler3D", "int", "3D", "INT_SAMPLER_3D", 0x8DCB),
+  isamplerCube: samplerType(
+    "isamplerCube",
+    "int",
+    "Cube",
+    "INT_SAMPLER_CUBE",
+    0x8DCC,
+  ),
+  isampler2DArray: samplerType(
+    "isampler2DArray",
+    "int",
+    "2DArray",
+    "INT_SAMPLER_2D_ARRAY",
+    0x8DCF,
+  ),
+  usampler2D: samplerType(
+    "usampler2D",
+    "uint",
+    "2D",
+    "UNSIGNED_INT_SAMPLER_2D",
+    0x8DD2,
+  ),
+  usampler3D: samplerType(
+    "usampler3D",
+    "uint",
+    "3D",
+    "UNSIGNED_INT_SAMPLER_3D",
+    0x8DD3,
+  ),
+  usamplerCube: samplerType(
+    "usamplerCube",
+    "uint",
+    "Cube",
+    "UNSIGNED_INT_SAMPLER_CUBE",
+    0x8DD4,
+  ),
+  usampler2DArray: samplerType(
+    "usampler2DArray",
+    "uint",
+    "2DArray",
+    "UNSIGNED_INT_SAMPLER_2D_ARRAY",
+    0x8DD7,
+  ),
+};
@@ -0,0 +1,71 @@
+// Copyright 2021 Hugo Daniel Henriques Oliveira Gomes. All rights reserved.
+// Licensed under the EUPL
+import { parse } from "./parser.ts";
+import { activeUniforms } from "./uniforms.ts";
+import {
+  assertEquals,
+  assertThrows,
+} from "https://deno.land/std@0.83.0/testing/asserts.ts";
+
+Deno.test(
+  "Lists the uniforms with the names reported by getActiveUniform",
+  () => {
+    const variables = parse(`#version 300 es
+    precision highp float;
+    struct Material { vec3 ambient; float weights[2]; };
+    struct Light { vec3 color; Material material; };
+    uniform float u_time;
+    uniform vec2 u_offsets[4];
+    uniform Light u_lights[2];
+    uniform sampler2D u_texture;
+    uniform mat4 u_cascades[2][3];
+    uniform PerScene { Material material; mat3 normals; } u_perScene;
+    uniform Globals { uvec2 size; };
+    void main() {}
+    `);
+    assertEquals(
+      activeUniforms(variables).map(({ name, typeName, size, blockName }) => [
+        name,
+        typeName,
+        size,
+        blockName,
+      ]),
+      [
+        ["u_time", "FLOAT", 1, null],
+        ["u_offsets[0]", "FLOAT_VEC2", 4, null],
+        ["u_lights[0].color", "FLOAT_VEC3", 1, null],
+        ["u_lights[0].material.ambient", "FLOAT_VEC3", 1, null],
+        ["u_lights[0].material.weights[0]", "FLOAT", 2, null],
+        ["u_lights[1].color", "FLOAT_VEC3", 1, null],
+        ["u_lights[1].material.ambient", "FLOAT_VEC3", 1, null],
+        ["u_lights[1].material.weights[0]", "FLOAT", 2, null],
+        ["u_texture", "SAMPLER_2D", 1, null],
+        ["u_cascades[0][0]", "FLOAT_MAT4", 3, null],
+        ["u_cascades[1][0]", "FLOAT_MAT4", 3, null],
+        ["PerScene.material.ambient", "FLOAT_VEC3", 1, "PerScene"],
+        ["PerScene.material.weights[0]", "FLOAT", 2, "PerScene"],
+        ["PerScene.normals", "FLOAT_MAT3", 1, "PerScene"],
+        ["size", "UNSIGNED_INT_VEC2", 1, "Globals"],
+      ],
+    );
+    const [time, , , , , , , , texture] = activeUniforms(variables);
+    assertEquals([time.type, texture.type], [0x1406, 0x8B5E]);
+    assertEquals(time.variable, variables[0]);
+  },
+);
+
+Deno.test(
+  "Throws when a uniform uses an unknown struct",
+  () => {
+    const variables = parse(`#version 300 es
+    struct Light { vec3 color; };
+    uniform Light u_light;
+    void main() {}
+    `);
+    assertThrows(
+      () => activeUniforms([variables[0]]),
+      Error,
+      'Unknown struct "Light" used by "u_light"',
+    );
+  },
+);
@@ -0,0 +1,135 @@
+// Copyright 2021 Hugo Daniel Henriques Oliveira Gomes. All rights reserved.
+// Licensed under the EUPL
+import { GLSLVariable } from "./parser.ts";
+import { findStruct } from "./std140.ts";
+import { glslTypes, isGLSLType } from "./types.ts";
+
+/**
+ * This function lists the uniforms of a shader the same way the WebGL
+ * `gl.getActiveUniform()` reports them: one entry for each variable of a
+ * basic type (or sampler), with its fully qualified name.
+ *
+ * It receives the variables returned by `parse()`. The names follow the
+ * OpenGL ES 3.0 rules:
+ * - arrays of basic types are a single entry with "[0]" appended to their
+ * name, i.e. "u_weights[0]", and the number of elements in the `size`
+ * - structs are expanded into their members, i.e. "u_light.color", and arrays
+ * of structs into the members of each element, i.e. "u_lights[1].color"
+ * - uniform block members are qualified with the block name (not the
+ * instance name) when the block has an instance name, i.e.
+ * "PerScene.material.ambient", or have just their name when it has none
+ *
+ * The driver only reports the uniforms that are used by the program (the
+ * active ones), this list has all the uniforms declared on the shader.
+ *
+ * It throws an exception if a uniform uses a struct that is not declared on
+ * the `variables`, or has a type that is not available in WebGL.
+ *
+ * @param variables all the variables returned by `parse()` (with the structs)
+ */
+export function activeUniforms(variables: GLSLVariable[]): ActiveUniform[] {
+  const structs = variables.filter((v) => v.qualifier === "struct");
+  const uniforms: ActiveUniform[] = [];
+  for (const variable of variables) {
+    if (variable.qualifier !== "uniform") continue;
+    if (variable.type === "block") {
+      const prefix = variable.instanceName ? `${variable.name}.` : "";
+      for (const member of variable.block || []) {
+        flattenUniform(member, prefix, variable.name, structs, uniforms);
+      }
+    } else {
+      flattenUniform(variable, "", null, structs, uniforms);
+    }
+  }
+  return uniforms;
+}
+
+/**
+ * A uniform as it is reported by `gl.getActiveUniform()`.
+ */
+export interface ActiveUniform {
+  // The fully qualified name, i.e. "u_lights[0].color" or "u_weights[0]"
+  name: string;
+  // The GL type enum, i.e. 0x8B51 for FLOAT_VEC3
+  type: number;
+  // The name of the GL type enum, i.e. "FLOAT_VEC3"
+  typeName: string;
+  // The number of array elements (1 if it is not an array)
+  size: number;
+  // The name of the uniform block that has this uniform, or null if it is on
+  // the default uniform block
+  blockName: string | null;
+  // The declaration of this uniform (the struct member, for uniforms that are
+  // part of a struct)
+  variable: GLSLVariable;
+}
+
+/**
+ * Places the entries of a variable on the `uniforms` list. The `prefix` is
+ * the qualified name of the struct (or block) that has the variable.
+ */
+function flattenUniform(
+  variable: GLSLVariable,
+  prefix: string,
+  blockName: string | null,
+  structs: GLSLVariable[],
+  uniforms: ActiveUniform[],
+) {
+  const name = prefix + variable.name;
+  if (variable.type === "struct") {
+    const struct = findStruct(variable, structs);
+    // Each element of an array of structs has its own entries
+    for (const element of arrayElements(variable.dimensions)) {
+      for (const member of struct.block || []) {
+        flattenUniform(
+          member,
+          `${name}${element}.`,
+          blockName,
+          structs,
+          uniforms,
+        );
+      }
+    }
+    return;
+  }
+  const info = isGLSLType(variable.type) ? glslTypes[variable.type] : null;
+  if (!info || info.glType === null || info.glTypeName === null) {
+    throw new Error(
+      `The type "${variable.type}" of "${name}" is not available in WebGL`,
+    );
+  }
+  const { glType: type, glTypeName: typeName } = info;
+  const { dimensions } = variable;
+  if (dimensions.length === 0) {
+    uniforms.push({ name, type, typeName, size: 1, blockName, variable });
+    return;
+  }
+  // Arrays are a single entry for their innermost dimension, the outer
+  // dimensions of arrays of arrays have an entry for each of their elements
+  const size = dimensions[dimensions.length - 1];
+  for (const element of arrayElements(dimensions.slice(0, -1))) {
+    uniforms.push({
+      name: `${name}${element}[0]`,
+      type,
+      typeName,
+      size,
+      blockName,
+      variable,
+    });
+  }
+}
+
+/**
+ * Returns the access string of each element of an array with the provided
+ * dimensions, i.e. ["[0][0]", "[0][1]", "[1][0]", "[1][1]"] for [2, 2]. It
+ * returns [""] when there are no dimensions (the variable is not an array).
+ */
+function arrayElements(dimensions: number[]): string[] {
+  return dimensions.reduce(
+    (elements, size) =>
+      elements.flatMap((element) =>
+        Array.from({ length: size }, (_, i) => `${element}[${i}]`)
+      ),
+    [""],
+  );
+}
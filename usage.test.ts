@@ -0,0 +1,60 @@
+// Copyright 2021 Hugo Daniel Henriques Oliveira Gomes. All rights reserved.
+// Licensed under the EUPL
+import { parseDeclarations } from "./parser.ts";
+import { variablesUsage } from "./usage.ts";
+import { assertEquals } from "https://deno.land/std@0.83.0/testing/asserts.ts";
+
+Deno.test(
+  "Marks the variables referenced from main and the functions it calls",
+  () => {
+    const usages = variablesUsage(parseDeclarations(`#version 300 es
+    precision highp float;
+    struct Light { vec3 color; float intensity; };
+    uniform Light u_lights[2];
+    uniform Material { vec4 u_tint; float u_shininess; } material;
+    uniform Scene { mat4 u_view; mat4 u_projection; };
+    uniform sampler2D u_unused;
+    uniform float u_time;
+    in vec4 v_color;
+    in vec2 v_uv;
+    out vec4 outColor;
+    float pulse(float t);
+    float pulse(float t) { return sin(t * u_time); }
+    vec4 shade(vec4 color) {
+      return color * u_lights[1].intensity * pulse(1.0);
+    }
+    vec4 unused() { return texture(u_unused, v_uv); }
+    void main() {
+      outColor = shade(v_color) * material.u_tint * u_projection[0];
+    }
+    `));
+    assertEquals(
+      usages.map(({ variable, isReferenced, members }) => [
+        variable.name,
+        isReferenced,
+        members.map((m) => `${m.variable.name}: ${m.isReferenced}`),
+      ]),
+      [
+        ["u_lights", true, []],
+        ["Material", true, ["u_tint: true", "u_shininess: false"]],
+        ["Scene", true, ["u_view: false", "u_projection: true"]],
+        ["u_unused", false, []],
+        ["u_time", true, []],
+        ["v_color", true, []],
+        ["v_uv", false, []],
+        ["outColor", true, []],
+      ],
+    );
+  },
+);
+
+Deno.test(
+  "Does not reference any variable without a main function",
+  () => {
+    const usages = variablesUsage(parseDeclarations(`#version 300 es
+    uniform float u_time;
+    float pulse() { return u_time; }
+    `));
+    assertEquals(usages.map(({ isReferenced }) => isReferenced), [false]);
+  },
+);
@@ -0,0 +1,95 @@
+// Copyright 2021 Hugo Daniel Henriques Oliveira Gomes. All rights reserved.
+// Licensed under the EUPL
+import {
+  FunctionDeclaration,
+  GLSLDeclaration,
+  GLSLVariable,
+} from "./parser.ts";
+
+/**
+ * This function tells which variables of a shader are used by it. A variable
+ * is referenced when its name is on the body of `main()` or of a function
+ * that it calls (directly or through other functions). The driver optimizes
+ * away the unreferenced uniforms and inputs, i.e. `gl.getUniformLocation()`
+ * returns null for them.
+ *
+ * It receives the declarations returned by `parseDeclarations()`, and lists
+ * the variables and uniform blocks in the order they are declared (the
+ * structs are not listed). The members of the uniform blocks are referenced
+ * with the instance name, i.e. "block.u_tint", when the block has one, or
+ * just with their name when it has none. A block is referenced when any of
+ * its members is.
+ *
+ * The names are not scoped: a local variable or a parameter with the same
+ * name of a global variable marks it as referenced. Without a `main()`
+ * function none of the variables is referenced.
+ *
+ * @param declarations all the declarations returned by `parseDeclarations()`
+ */
+export function variablesUsage(
+  declarations: GLSLDeclaration[],
+): VariableUsage[] {
+  const references = readMainReferences(declarations);
+  const usages: VariableUsage[] = [];
+  for (const declaration of declarations) {
+    if (declaration.kind !== "variable" && declaration.kind !== "block") {
+      continue;
+    }
+    const variable = declaration.variable;
+    const prefix = variable.instanceName ? `${variable.instanceName}.` : "";
+    const members = (variable.block || []).map((member) => ({
+      variable: member,
+      isReferenced: references.has(prefix + member.name),
+      members: [],
+    }));
+    usages.push({
+      variable,
+      isReferenced: references.has(variable.instanceName || variable.name) ||
+        members.some((member) => member.isReferenced),
+      members,
+    });
+  }
+  return usages;
+}
+
+/**
+ * The usage of a variable (or of a uniform block member) on the shader.
+ */
+export interface VariableUsage {
+  // The declaration of this variable
+  variable: GLSLVariable;
+  // True if this variable is used by `main()` or by the functions it calls
+  isReferenced: boolean;
+  // The usage of each member, for uniform blocks (empty for the others)
+  members: VariableUsage[];
+}
+
+/**
+ * Returns the names referenced by `main()` and by all the functions that it
+ * calls. The functions are followed through all of their overloads, since
+ * the parameter types are not checked.
+ */
+function readMainReferences(declarations: GLSLDeclaration[]): Set<string> {
+  const functions = new Map<string, FunctionDeclaration[]>();
+  for (const declaration of declarations) {
+    if (declaration.kind !== "function") continue;
+    const overloads = functions.get(declaration.name) || [];
+    overloads.push(declaration);
+    functions.set(declaration.name, overloads);
+  }
+  const references = new Set<string>();
+  const visited = new Set<string>(["main"]);
+  const pending = ["main"];
+  for (let name = pending.pop(); name !== undefined; name = pending.pop()) {
+    for (const { references: names } of functions.get(name) || []) {
+      for (const reference of names) {
+        references.add(reference);
+        if (functions.has(reference) && !visited.has(reference)) {
+          visited.add(reference);
+          pending.push(reference);
+        }
+      }
+    }
+  }
+  return references;
+}
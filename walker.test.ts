@@ -0,0 +1,43 @@
+// Copyright 2021 Hugo Daniel Henriques Oliveira Gomes. All rights reserved.
+// Licensed under the EUPL
+import { parseDeclarations } from "./parser.ts";
+import { walkDeclarations } from "./walker.ts";
+import { assertEquals } from "https://deno.land/std@0.83.0/testing/asserts.ts";
+
+Deno.test(
+  "Visits the declarations by their kind",
+  () => {
+    const declarations = parseDeclarations(`#version 300 es
+    precision mediump float;
+    precision highp int;
+    struct Light { vec3 color; float intensity; };
+    uniform Lights { Light u_sun; vec2 u_size; };
+    uniform Light u_light;
+    float luminance(vec3 color);
+    void main() {}
+    `);
+    const visited: string[] = [];
+    const defaults = new Map<string, string>();
+    walkDeclarations(declarations, {
+      precision: ({ type, precision }) => defaults.set(type, precision),
+      struct: ({ variable }) => visited.push(`struct ${variable.name}`),
+      block: ({ variable }) => visited.push(`block ${variable.name}`),
+      variable: ({ variable }) => visited.push(`variable ${variable.name}`),
+      function: ({ name }) => visited.push(`function ${name}`),
+      member: (member, parent) =>
+        visited.push(`member ${parent.name}.${member.name}`),
+    });
+    assertEquals([...defaults], [["float", "mediump"], ["int", "highp"]]);
+    assertEquals(visited, [
+      "struct Light",
+      "member Light.color",
+      "member Light.intensity",
+      "block Lights",
+      "member Lights.u_sun",
+      "member Lights.u_size",
+      "variable u_light",
+      "function luminance",
+      "function main",
+    ]);
+  },
+);
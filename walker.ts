@@ -0,0 +1,74 @@
+// Copyright 2021 Hugo Daniel Henriques Oliveira Gomes. All rights reserved.
+// Licensed under the EUPL
+import {
+  DirectiveDeclaration,
+  FunctionDeclaration,
+  GLSLDeclaration,
+  GLSLVariable,
+  PrecisionDeclaration,
+  VariableDeclaration,
+} from "./parser.ts";
+
+/**
+ * This function goes through the `declarations` (as returned by
+ * `parseDeclarations()`) in their order, and calls the `visitor` function of
+ * the kind of each one of them. The members of the structs and uniform blocks
+ * are visited right after their declaration with the `member` function.
+ *
+ * i.e. to read the default precisions of a shader:
+ *
+ *  walkDeclarations(parseDeclarations(code), {
+ *    precision: ({ type, precision }) => defaults.set(type, precision),
+ *  });
+ *
+ * @param declarations the declarations to visit
+ * @param visitor the functions to call for each kind of declaration
+ */
+export function walkDeclarations(
+  declarations: GLSLDeclaration[],
+  visitor: DeclarationVisitor,
+): void {
+  for (const declaration of declarations) {
+    switch (declaration.kind) {
+      case "variable":
+        visitor.variable?.(declaration);
+        break;
+      case "struct":
+        visitor.struct?.(declaration);
+        break;
+      case "block":
+        visitor.block?.(declaration);
+        break;
+      case "precision":
+        visitor.precision?.(declaration);
+        break;
+      case "function":
+        visitor.function?.(declaration);
+        break;
+      case "directive":
+        visitor.directive?.(declaration);
+        break;
+    }
+    if ("variable" in declaration) {
+      for (const member of declaration.variable.block || []) {
+        visitor.member?.(member, declaration.variable);
+      }
+    }
+  }
+}
+
+/**
+ * The functions called by `walkDeclarations()`, one for each kind of
+ * declaration. The kinds without a function are skipped.
+ */
+export interface DeclarationVisitor {
+  variable?: (declaration: VariableDeclaration) => void;
+  struct?: (declaration: VariableDeclaration) => void;
+  block?: (declaration: VariableDeclaration) => void;
+  precision?: (declaration: PrecisionDeclaration) => void;
+  function?: (declaration: FunctionDeclaration) => void;
+  directive?: (declaration: DirectiveDeclaration) => void;
+  // Called for each member of a struct or uniform block, with the variable
+  // that has it on its `block` array
+  member?: (member: GLSLVariable, parent: GLSLVariable) => void;
+}